@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuditLog, AuditFilter, DEFAULT_QUERY_LIMIT } from "@/lib/audit";
+
+const MAX_QUERY_LIMIT = 1000;
+const UX_MODES = ["informational", "clarification", "emergency"];
+const RISK_LEVELS = ["low", "medium", "high"];
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records hold model output and safety decisions, so outside development the
+ * log is only readable with AUDIT_API_TOKEN as a bearer token.
+ */
+function isAuthorized(request: NextRequest, env: NodeJS.ProcessEnv = process.env): boolean {
+  const token = env.AUDIT_API_TOKEN;
+  if (!token) return env.NODE_ENV !== "production";
+  return request.headers.get("authorization") === `Bearer ${token}`;
+}
+
+function parseDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid ${name} date "${value}"`);
+  return date;
+}
+
+/**
+ * Read filters from the query string:
+ * from, to (ISO dates or timestamps; a date-only "to" includes that whole day),
+ * ux_mode, risk_level, rule (substring of an applied rule) and limit.
+ * @throws Error describing the first invalid parameter
+ */
+function parseFilter(params: URLSearchParams): AuditFilter {
+  const filter: AuditFilter = {};
+
+  const from = params.get("from");
+  if (from) filter.from = parseDate(from, "from");
+
+  const to = params.get("to");
+  if (to) {
+    const date = parseDate(to, "to");
+    filter.to = DATE_ONLY.test(to) ? new Date(date.getTime() + DAY_MS) : date;
+  }
+
+  const uxMode = params.get("ux_mode");
+  if (uxMode) {
+    if (!UX_MODES.includes(uxMode)) throw new Error(`ux_mode must be one of ${UX_MODES.join(", ")}`);
+    filter.uxMode = uxMode;
+  }
+
+  const riskLevel = params.get("risk_level");
+  if (riskLevel) {
+    if (!RISK_LEVELS.includes(riskLevel)) throw new Error(`risk_level must be one of ${RISK_LEVELS.join(", ")}`);
+    filter.riskLevel = riskLevel;
+  }
+
+  const rule = params.get("rule");
+  if (rule) filter.rule = rule;
+
+  const limit = params.get("limit");
+  if (limit) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1) throw new Error("limit must be a positive integer");
+    filter.limit = Math.min(value, MAX_QUERY_LIMIT);
+  } else {
+    filter.limit = DEFAULT_QUERY_LIMIT;
+  }
+
+  return filter;
+}
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let filter: AuditFilter;
+  try {
+    filter = parseFilter(request.nextUrl.searchParams);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    const records = await getAuditLog().query(filter);
+    return NextResponse.json({ count: records.length, records });
+  } catch (error) {
+    console.error("Audit API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { invalidateResponses, CacheInvalidation } from "@/lib/responseCache";
+
+/**
+ * Clearing the cache costs provider calls, so outside development it needs
+ * CACHE_API_TOKEN as a bearer token.
+ */
+function isAuthorized(request: NextRequest, env: NodeJS.ProcessEnv = process.env): boolean {
+  const token = env.CACHE_API_TOKEN;
+  if (!token) return env.NODE_ENV !== "production";
+  return request.headers.get("authorization") === `Bearer ${token}`;
+}
+
+/**
+ * Remove cached responses. With no query parameters every entry is removed;
+ * question, prompt_version and model narrow it down.
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const filter: CacheInvalidation = {};
+  const question = params.get("question");
+  if (question) filter.question = question;
+  const promptVersion = params.get("prompt_version");
+  if (promptVersion) filter.promptVersion = promptVersion;
+  const model = params.get("model");
+  if (model) filter.model = model;
+
+  try {
+    const removed = await invalidateResponses(filter);
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Cache API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,34 +1,195 @@
 import { NextRequest, NextResponse } from "next/server";
-import { REMEDY_UX_ASSEMBLY_LITE_PROMPT } from "@/prompts/remedy-ux-assembly-lite";
-import { buildFinalUI, AIResponse } from "@/lib/buildFinalUI";
-
-// Types for conversation messages
-interface ConversationMessage {
-  role: "user" | "assistant";
-  content: string;
-  structured?: {
-    ux_mode?: { mode: string };
-    response_content?: {
-      summary?: string;
-      clarifying_question?: {
-        question: string;
-        options: string[];
-      };
-    };
+import {
+  promptKey,
+  selectPrompt,
+  PromptDefinition,
+  PromptSource,
+  PROMPT_HEADER,
+} from "@/prompts/registry";
+import { renderTemplate, userContent } from "@/prompts/template";
+import { renderConversationContext } from "@/prompts/conversation-context";
+import { buildFinalUI, buildPartialUI, AIResponse, BuildResult } from "@/lib/buildFinalUI";
+import { getProvider, getFallbackProvider, ChatMessage, CompletionResult, ProviderError } from "@/lib/llm";
+import { parsePartialJson } from "@/lib/partialJson";
+import { buildFallbackResponse } from "@/lib/fallbackUI";
+import { detectRedFlags, forceEmergency, RedFlagMatch } from "@/lib/redFlags";
+import {
+  applyDosageGuard,
+  describeDosageHits,
+  scanDosage,
+  DEFAULT_DOSAGE_POLICY,
+  DosagePolicy,
+} from "@/lib/dosageGuard";
+import {
+  applySourceAllowlist,
+  DEFAULT_UNTRUSTED_SOURCE_POLICY,
+  UntrustedSourcePolicy,
+} from "@/lib/sourceAllowlist";
+import {
+  attachRetrievedSources,
+  formatRetrievedContext,
+  isRetrievalEnabled,
+  retrievePassages,
+  RetrievedPassage,
+} from "@/lib/retrieval";
+import { getSessionStore, Session, SessionTurn } from "@/lib/sessions";
+import { adaptFullPromptOutput, buildModelAssembly, compareAssemblies } from "@/lib/fullPromptAdapter";
+import { buildCaseState, formatCaseState, CaseState } from "@/lib/caseState";
+import { compactHistory, estimateTokens, CompactionReport, DEFAULT_HISTORY_BUDGET, HistoryBudget } from "@/lib/historyCompaction";
+import { hashUserInput, recordAudit, AuditOutcome } from "@/lib/audit";
+import { ChatError, ChatErrorBody, ERROR_STATUS, toChatError } from "@/lib/chatErrors";
+import { parseChatRequest, MAX_SESSION_TURNS } from "@/lib/chatRequest";
+import {
+  checkRequestLimit,
+  checkTokenBudget,
+  getClientIp,
+  getRateLimitConfig,
+  recordTokenUsage,
+  BudgetOwner,
+  LimitExceeded,
+  LimitScope,
+  RateLimitConfig,
+} from "@/lib/rateLimit";
+import {
+  cacheResponse,
+  getCachedResponse,
+  isResponseCacheEnabled,
+  CacheBypassReason,
+  CacheEntry,
+  CacheStatus,
+} from "@/lib/responseCache";
+import { isRedactionEnabled, redactPii, restorePii, PiiType, RedactionMap } from "@/lib/piiRedaction";
+import { buildInjectionResponse, runInjectionCheck, InjectionCheck, InjectionMatch } from "@/lib/injectionGuard";
+import {
+  estimateUsage,
+  generateAIResponse,
+  parseModelContent,
+  DEFAULT_RETRY_POLICY,
+  GenerateOptions,
+  GenerationResult,
+} from "@/lib/generateAIResponse";
+
+// Per-request values needed to turn a completion into the response payload
+interface TurnContext {
+  // Date.now() when the request arrived, for the audit log's latency
+  startTime: number;
+  session: Session;
+  prompt: PromptDefinition;
+  promptSource: PromptSource;
+  latestUserMessage: string;
+  conversationTurns: number;
+  clarifyingCount: number;
+  clarifyingExhausted: boolean;
+  // First red flag found in the latest user message, if any
+  redFlag: RedFlagMatch | null;
+  dosagePolicy: DosagePolicy;
+  sourcePolicy: UntrustedSourcePolicy;
+  // Corpus passages given to the model, or null when retrieval is disabled
+  passages: RetrievedPassage[] | null;
+  history: CompactionReport;
+  caseState: CaseState;
+  injection: InjectionCheck;
+  // Charged against the daily budgets when the stream ends
+  meter: TokenMeter;
+  // A miss stores the finished response under the primary provider's model
+  cache: { status: CacheStatus; model: string };
+  // Placeholders for personal details, used to restore them in the model's output
+  redaction: { enabled: boolean; map: RedactionMap; types: Partial<Record<PiiType, number>> };
+}
+
+/**
+ * Tokens one request spent on model calls, counted as each call returns or
+ * fails. Charged to the session's and the IP's daily budgets once the request
+ * ends, whether it finished, failed or was stopped.
+ */
+interface TokenMeter {
+  owner: BudgetOwner;
+  config: RateLimitConfig;
+  tokens: number;
+}
+
+async function chargeTokens(meter: TokenMeter): Promise<void> {
+  await recordTokenUsage(meter.owner, meter.tokens, meter.config);
+}
+
+// What a blocked turn needs; it stops before retrieval and history are built
+type InjectionContext = Pick<
+  TurnContext,
+  | "startTime" | "session" | "prompt" | "promptSource" | "latestUserMessage" | "conversationTurns"
+  | "clarifyingCount" | "clarifyingExhausted" | "redFlag" | "caseState" | "redaction"
+>;
+
+const DOSAGE_POLICIES: DosagePolicy[] = ["redact", "rewrite", "regenerate"];
+
+function getDosagePolicy(): DosagePolicy {
+  const policy = process.env.DOSAGE_GUARD_POLICY as DosagePolicy;
+  return DOSAGE_POLICIES.includes(policy) ? policy : DEFAULT_DOSAGE_POLICY;
+}
+
+function getHistoryBudget(): HistoryBudget {
+  return {
+    maxTokens: Number(process.env.HISTORY_TOKEN_BUDGET) || DEFAULT_HISTORY_BUDGET.maxTokens,
+    recentTurns: Number(process.env.HISTORY_RECENT_TURNS) || DEFAULT_HISTORY_BUDGET.recentTurns,
   };
 }
 
-interface ChatRequest {
-  messages: ConversationMessage[];
-  isNewConversation?: boolean;
+// Model work for one request, across every attempt, before it fails with upstream_timeout
+const DEFAULT_TIMEOUT_MS = 60000;
+
+function getTimeoutMs(): number {
+  return Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+}
+
+function getSourcePolicy(): UntrustedSourcePolicy {
+  return process.env.UNTRUSTED_SOURCE_POLICY === "demote" ? "demote" : DEFAULT_UNTRUSTED_SOURCE_POLICY;
+}
+
+const MAX_CLARIFYING_QUESTIONS = 2;
+
+// Recent user turns, so an answer to a clarifying question still retrieves on the original topic
+const RETRIEVAL_QUERY_TURNS = 3;
+
+// Stored in place of a blocked message, so later turns don't replay the attempt to the model
+const WITHHELD_MESSAGE = "[Message withheld: prompt injection attempt]";
+
+const LIMIT_MESSAGES: Record<LimitScope, string> = {
+  ip: "Too many messages are coming from your network. Please wait a moment before sending another.",
+  session: "You're sending messages faster than we can answer them. Please wait a moment before sending another.",
+  daily_tokens: "This conversation has reached today's usage limit.",
+  ip_daily_tokens: "Your network has reached today's usage limit.",
+};
+
+function limitError(limit: LimitExceeded): ChatError {
+  return new ChatError("rate_limited", LIMIT_MESSAGES[limit.scope], {
+    retryAfter: Math.ceil(limit.retryAfterMs / 1000),
+  });
+}
+
+const NDJSON_HEADERS = {
+  "Content-Type": "application/x-ndjson; charset=utf-8",
+  "Cache-Control": "no-cache",
+};
+
+/**
+ * Guard a partially streamed response so dosage text and unresolved citation
+ * ids never reach the screen mid-stream. Full-prompt output is adapted to the
+ * lite shape first; anything that is not yet shaped like a response passes through.
+ */
+function guardPartialResponse(parsed: unknown, context: TurnContext): unknown {
+  const partial = context.prompt.outputSchema === "full" ? adaptFullPromptOutput(parsed) : parsed;
+  if (!partial || typeof partial !== "object") return partial;
+  let response = partial as AIResponse;
+  if (!response.response_content || typeof response.response_content !== "object") return partial;
+  if (context.passages) response = attachRetrievedSources(response, context.passages).response;
+  return applyDosageGuard(response, context.dosagePolicy).response;
 }
 
 /**
- * Count consecutive clarifying questions in the conversation history.
+ * Count consecutive clarifying questions in the stored conversation history.
  * Walks backwards from the end, counting assistant responses with ux_mode === "clarification".
  * Stops when it hits a non-clarifying response or the start of conversation.
  */
-function countConsecutiveClarifyingQuestions(messages: ConversationMessage[]): number {
+function countConsecutiveClarifyingQuestions(messages: SessionTurn[]): number {
   let count = 0;
 
   // Walk backwards through messages
@@ -51,179 +212,611 @@ function countConsecutiveClarifyingQuestions(messages: ConversationMessage[]): n
 }
 
 /**
- * Build conversation history for OpenAI from the message array.
- * Extracts meaningful content from structured responses.
+ * Why this turn can't be answered from the response cache, or null if it can.
+ * Red flags come first so the debug panel names the reason that matters most.
  */
-function buildConversationHistory(messages: ConversationMessage[]): Array<{ role: "user" | "assistant"; content: string }> {
-  return messages.map((msg) => {
-    if (msg.role === "user") {
-      return { role: "user" as const, content: msg.content };
-    }
+function cacheBypassReason(
+  session: Session,
+  redFlag: RedFlagMatch | null,
+  redaction: TurnContext["redaction"]
+): CacheBypassReason | null {
+  if (!isResponseCacheEnabled()) return "disabled";
+  if (redFlag) return "red_flag";
+  if (session.turns.length > 0) return "follow_up";
+  if (Object.keys(redaction.types).length > 0) return "personal_details";
+  return null;
+}
 
-    // For assistant messages, extract meaningful content from structured data
-    if (msg.structured) {
-      const parts: string[] = [];
+/**
+ * Body returned when the request fails before producing any output.
+ * Carries a fallback UI so the frontend still has something safe to render.
+ */
+function buildErrorPayload(error: ChatError, latestUserMessage: string, sessionId?: string) {
+  return {
+    success: false,
+    sessionId,
+    error: error.toBody(),
+    structured: buildFallbackResponse(latestUserMessage, error.message),
+  };
+}
 
-      // Include summary if present
-      if (msg.structured.response_content?.summary) {
-        parts.push(msg.structured.response_content.summary);
-      }
+/**
+ * Build the response payload from a finished generation.
+ * Shared by the JSON and streaming transports so both return the same shape.
+ * When no attempt produced a valid response, `structured` is the fallback UI
+ * and `error` is a parse_failure.
+ */
+function buildChatPayload(generation: GenerationResult, context: TurnContext) {
+  const { completion, parseError, validation, attempts } = generation;
+  const rawContent = completion.content;
+  const { clarifyingCount, clarifyingExhausted, redFlag } = context;
 
-      // Include clarifying question if present
-      if (msg.structured.response_content?.clarifying_question) {
-        const cq = msg.structured.response_content.clarifying_question;
-        parts.push(`I asked: "${cq.question}" with options: ${cq.options.join(", ")}`);
-      }
+  // Validated and repaired output from the last attempt
+  const modelResponse = validation?.response ?? null;
 
-      return {
-        role: "assistant" as const,
-        content: parts.join("\n\n") || "[structured response]",
-      };
-    }
+  // A red flag overrides the model's triage, so scenario checks see the escalated response
+  const escalatedResponse = modelResponse && redFlag ? forceEmergency(modelResponse, redFlag) : modelResponse;
 
-    // Fallback for messages without structured data
-    return {
-      role: "assistant" as const,
-      content: msg.content || "[response]",
-    };
-  });
+  // With retrieval on, sources come from the corpus records the model cited
+  const retrieval = escalatedResponse && context.passages
+    ? attachRetrievedSources(escalatedResponse, context.passages)
+    : null;
+  const groundedResponse = retrieval?.response ?? escalatedResponse;
+
+  // Dosage guard runs before the UI rules, whatever the model was told
+  const dosageGuard = groundedResponse ? applyDosageGuard(groundedResponse, context.dosagePolicy) : null;
+  const parsedResponse = dosageGuard?.response ?? null;
+
+  // If we got a valid AI response, apply frontend rules to build final UI
+  let buildResult = null;
+  if (parsedResponse) {
+    // Pass clarifying count for safety net enforcement
+    buildResult = buildFinalUI(parsedResponse, clarifyingCount, redFlag);
+    buildResult.guardrails.applied_rules.unshift(...(retrieval?.applied ?? []), ...(dosageGuard?.applied ?? []));
+    // Never link to a publisher that is not on the allowlist
+    buildResult = applySourceAllowlist(buildResult, context.sourcePolicy);
+  }
+
+  const lastAttempt = attempts[attempts.length - 1];
+
+  // The full prompt assembles its own UI; keep it next to ours for comparison
+  const modelAssembly = context.prompt.outputSchema === "full"
+    ? buildModelAssembly(parseModelContent(rawContent).parsedResponse)
+    : null;
+
+  return {
+    success: !!parsedResponse && !!buildResult,
+    sessionId: context.session.id,
+    ...(!parsedResponse && { error: new ChatError("parse_failure").toBody() }),
+    // Include both AI response and frontend-computed results
+    structured: parsedResponse ? {
+      // Original AI analysis (for debug panel)
+      intent_detection: parsedResponse.intent_detection,
+      ux_mode: parsedResponse.ux_mode,
+      response_content: parsedResponse.response_content,
+      // Frontend-computed (for rendering and debug)
+      ...(buildResult || {}),
+      // Add clarifying question tracking info
+      clarifying_context: {
+        count: clarifyingCount + (parsedResponse.ux_mode?.mode === "clarification" ? 1 : 0),
+        max: MAX_CLARIFYING_QUESTIONS,
+        exhausted: clarifyingExhausted,
+      },
+      // Facts carried forward from earlier turns
+      case_state: context.caseState,
+    } : buildFallbackResponse(context.latestUserMessage, lastAttempt.error || "No valid response"),
+    rawContent: rawContent,
+    parseError: parseError,
+    debug: {
+      provider: lastAttempt.provider,
+      finishReason: completion.finishReason,
+      model: completion.model,
+      // Total across all attempts
+      usage: generation.usage,
+      attempts,
+      promptVersion: promptKey(context.prompt),
+      prompt: {
+        id: context.prompt.id,
+        version: context.prompt.version,
+        outputSchema: context.prompt.outputSchema,
+        source: context.promptSource,
+      },
+      modelAssembly,
+      assemblyComparison: modelAssembly && buildResult ? compareAssemblies(modelAssembly, buildResult) : null,
+      conversationTurns: context.conversationTurns,
+      history: context.history,
+      redaction: { enabled: context.redaction.enabled, types: context.redaction.types },
+      clarifyingQuestionsAsked: clarifyingCount,
+      schemaValid: validation?.valid ?? false,
+      redFlag: redFlag ? {
+        id: redFlag.id,
+        label: redFlag.label,
+        modelMode: modelResponse?.ux_mode.mode ?? null,
+      } : null,
+      injection: context.injection,
+      cache: context.cache.status,
+      citations: buildResult?.citations ?? null,
+      retrieval: context.passages ? {
+        passages: context.passages.map(({ articleId, chunk, score }) => ({ articleId, chunk, score })),
+        cited: retrieval?.cited ?? [],
+      } : null,
+      dosagePolicy: context.dosagePolicy,
+      dosageHits: dosageGuard?.hits ?? [],
+      validationErrors: validation?.issues ?? [],
+    },
+  };
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const { messages, isNewConversation = true }: ChatRequest = await request.json();
-
-    // Get the latest user message
-    const userMessages = messages.filter((m) => m.role === "user");
-    const latestUserMessage = userMessages[userMessages.length - 1]?.content || "";
-
-    // Count consecutive clarifying questions (reset if new conversation)
-    const clarifyingCount = isNewConversation ? 0 : countConsecutiveClarifyingQuestions(messages);
-    const clarifyingExhausted = clarifyingCount >= 2;
-
-    // Build the system prompt with context injection
-    let systemPrompt = REMEDY_UX_ASSEMBLY_LITE_PROMPT.replace(
-      '"<USER QUESTION HERE>"',
-      `"${latestUserMessage}"`
-    );
-
-    // Inject clarifying question context
-    const contextInjection = `
-
-## CURRENT CONVERSATION CONTEXT
-- Clarifying questions asked so far: ${clarifyingCount}/2
-${clarifyingExhausted ? `
-**CRITICAL: CLARIFYING_QUESTIONS_EXHAUSTED**
-You have already asked 2 clarifying questions. You MUST provide a definitive answer NOW.
-Do NOT include a clarifying_question in your response. Provide your best assessment with the information gathered.
-` : ""}`;
-
-    systemPrompt += contextInjection;
-
-    // Build conversation history for multi-turn context
-    const conversationHistory = buildConversationHistory(messages);
-
-    // Build OpenAI messages array
-    const openAIMessages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
-      { role: "system", content: systemPrompt },
-      ...conversationHistory,
-    ];
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+/**
+ * Body returned when the injection guard blocks a message. The refusal is
+ * built locally, so there is no completion, retrieval or history to report.
+ */
+function buildInjectionPayload(match: InjectionMatch, injection: InjectionCheck, context: InjectionContext) {
+  const { clarifyingCount, clarifyingExhausted, redFlag } = context;
+
+  return {
+    success: false,
+    sessionId: context.session.id,
+    error: new ChatError("policy_blocked").toBody(),
+    structured: {
+      ...buildInjectionResponse(context.latestUserMessage, match),
+      clarifying_context: {
+        count: clarifyingCount,
+        max: MAX_CLARIFYING_QUESTIONS,
+        exhausted: clarifyingExhausted,
       },
-      body: JSON.stringify({
-        model: "gpt-5-mini",
-        messages: openAIMessages,
-        max_completion_tokens: 4096,
-      }),
+      case_state: context.caseState,
+    },
+    rawContent: null,
+    parseError: null,
+    debug: {
+      provider: null,
+      promptVersion: promptKey(context.prompt),
+      prompt: {
+        id: context.prompt.id,
+        version: context.prompt.version,
+        outputSchema: context.prompt.outputSchema,
+        source: context.promptSource,
+      },
+      conversationTurns: context.conversationTurns,
+      redaction: { enabled: context.redaction.enabled, types: context.redaction.types },
+      clarifyingQuestionsAsked: clarifyingCount,
+      redFlag: redFlag ? { id: redFlag.id, label: redFlag.label, modelMode: null } : null,
+      injection,
+    },
+  };
+}
+
+// Fields shared by the success, fallback and refusal bodies
+type AssembledResponse = AIResponse & Partial<BuildResult>;
+
+// The parts of a stored success body that a cache hit reads
+interface CachedPayload {
+  success: boolean;
+  structured: AssembledResponse;
+  rawContent: string | null;
+  debug: { provider: string | null; [key: string]: unknown };
+}
+
+interface AuditDetails {
+  startTime: number;
+  sessionId?: string;
+  latestUserMessage: string;
+  promptVersion: string | null;
+  provider: string | null;
+  model: string | null;
+  rawContent: string | null;
+}
+
+/**
+ * Write the audit record for a turn. Called before personal details are
+ * restored, so the log holds the same redacted text the provider saw.
+ */
+async function auditTurn(outcome: AuditOutcome, structured: AssembledResponse, details: AuditDetails): Promise<void> {
+  const { intent_detection, ux_mode, response_content, final_ui, guardrails, exit_state, citations } = structured;
+  await recordAudit({
+    sessionId: details.sessionId ?? null,
+    outcome,
+    promptVersion: details.promptVersion,
+    provider: details.provider,
+    model: details.model,
+    inputHash: hashUserInput(details.latestUserMessage),
+    rawContent: details.rawContent,
+    response: { intent_detection, ux_mode, response_content },
+    buildResult: final_ui && guardrails && exit_state && citations
+      ? { final_ui, guardrails, exit_state, citations }
+      : null,
+    latencyMs: Date.now() - details.startTime,
+  });
+}
+
+/**
+ * Turn a finished generation into the body sent to the client: build it,
+ * audit it, restore personal details the model echoed, then store the turn
+ * unless it failed.
+ */
+async function finishTurn(generation: GenerationResult, context: TurnContext) {
+  const payload = buildChatPayload(generation, context);
+  await auditTurn(payload.success ? "response" : "fallback", payload.structured, {
+    startTime: context.startTime,
+    sessionId: context.session.id,
+    latestUserMessage: context.latestUserMessage,
+    promptVersion: payload.debug.promptVersion,
+    provider: payload.debug.provider,
+    model: payload.debug.model,
+    rawContent: payload.rawContent,
+  });
+
+  const restored = { ...payload, structured: restorePii(payload.structured, context.redaction.map) };
+  if (!payload.error) await saveTurn(context, context.latestUserMessage, restored);
+
+  // Emergency answers are always generated fresh, even without a red flag
+  if (!payload.error && context.cache.status.status === "miss" && restored.structured.ux_mode?.mode !== "emergency") {
+    await cacheResponse(context.latestUserMessage, payload.debug.promptVersion, context.cache.model, restored);
+  }
+  return restored;
+}
+
+/**
+ * Body for a first question answered from the cache: the stored response,
+ * moved into this session, with the entry's age in debug.cache.
+ */
+function buildCachedPayload(entry: CacheEntry, session: Session, now: number = Date.now()) {
+  const payload = entry.payload as CachedPayload;
+  const cache: CacheStatus = { status: "hit", ageMs: now - entry.storedAt };
+  return { ...payload, sessionId: session.id, debug: { ...payload.debug, cache } };
+}
+
+/**
+ * Record the user's message and the assistant's reply in the session.
+ * Only completed turns are stored, so a failed turn can simply be retried.
+ */
+async function saveTurn(
+  context: Pick<TurnContext, "session">,
+  userMessage: string,
+  payload: { structured: Pick<AIResponse, "ux_mode" | "response_content"> }
+): Promise<void> {
+  const { ux_mode, response_content } = payload.structured;
+  await getSessionStore().appendTurns(context.session.id, [
+    { role: "user", content: userMessage },
+    { role: "assistant", content: "", structured: { ux_mode, response_content } },
+  ]);
+}
+
+/**
+ * The stream event for a finished payload: final, or error with the status
+ * the JSON transport would have used.
+ */
+function toFinalEvent(payload: { success: boolean; error?: ChatErrorBody }) {
+  return payload.error
+    ? { type: "error", ...payload, status: ERROR_STATUS[payload.error.code] }
+    : { type: "final", ...payload };
+}
+
+/**
+ * Send a finished payload over whichever transport the client asked for.
+ * A stream carries it as a single final or error event.
+ */
+function respondWithPayload(payload: { success: boolean; error?: ChatErrorBody }, stream: boolean): Response {
+  if (!stream) {
+    const retryAfter = payload.error?.retryAfter;
+    return NextResponse.json(payload, {
+      status: payload.error ? ERROR_STATUS[payload.error.code] : 200,
+      ...(retryAfter !== undefined && { headers: { "Retry-After": String(retryAfter) } }),
     });
+  }
+  return new Response(JSON.stringify(toFinalEvent(payload)) + "\n", { headers: NDJSON_HEADERS });
+}
 
-    if (!response.ok) {
-      const error = await response.json();
-      return NextResponse.json(
-        { error: error.error?.message || "API request failed" },
-        { status: response.status }
-      );
-    }
+/**
+ * Stream the response as newline-delimited JSON events:
+ * - { type: "partial", structured } whenever another response_content field finishes
+ * - { type: "retry", attempt } when an attempt failed and partial UI should be discarded
+ * - { type: "final", ...payload } with the same body the JSON transport returns
+ * - { type: "error", ...payload, status } with the JSON transport's error body and
+ *   status, when no valid response was produced or the provider fails mid-stream
+ *
+ * Only the first attempt streams; retries complete in one call. The first chunk
+ * is awaited before the response starts so provider errors still surface as a
+ * normal HTTP error status. If the client disconnects, the provider call is
+ * aborted and the stream ends without an event. The turn's tokens are charged
+ * when the stream ends, including the text streamed before a stop.
+ */
+async function streamChatResponse(
+  options: GenerateOptions,
+  completionStream: AsyncGenerator<string, CompletionResult>,
+  context: TurnContext,
+  // The request's own signal, aborted when the client disconnects
+  clientSignal: AbortSignal
+): Promise<Response> {
+  const firstStep = await completionStream.next().catch((error) => {
+    // The prompt was sent; POST charges it with the rest of the request
+    context.meter.tokens += estimateUsage(options.messages).total_tokens;
+    throw error;
+  });
+  const encoder = new TextEncoder();
 
-    const data = await response.json();
-    const rawContent = data.choices?.[0]?.message?.content || "";
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
 
-    // Try to parse JSON from the response
-    let parsedResponse: AIResponse | null = null;
-    let parseError = null;
+      // Emit partial UI while the first attempt streams in
+      const streamFirstAttempt = async (): Promise<CompletionResult> => {
+        let content = "";
+        let lastCompleted = "";
+        let step = firstStep;
 
-    try {
-      // Try direct JSON parse first
-      parsedResponse = JSON.parse(rawContent);
-    } catch {
-      // If that fails, try to extract JSON from markdown code blocks
-      const jsonMatch = rawContent.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
         try {
-          parsedResponse = JSON.parse(jsonMatch[1].trim());
-        } catch (e) {
-          parseError = `Failed to parse JSON from code block: ${e}`;
-        }
-      } else {
-        // Try to find JSON object in the response
-        const jsonObjectMatch = rawContent.match(/\{[\s\S]*\}/);
-        if (jsonObjectMatch) {
-          try {
-            parsedResponse = JSON.parse(jsonObjectMatch[0]);
-          } catch (e) {
-            parseError = `Failed to parse extracted JSON: ${e}`;
+          while (!step.done) {
+            content += step.value;
+            const partial = guardPartialResponse(parsePartialJson(content), context);
+            const builtUI = buildPartialUI(partial, context.clarifyingCount, false, context.redFlag);
+            const partialUI = builtUI && applySourceAllowlist(builtUI, context.sourcePolicy);
+
+            // Only emit when a component has finished, not on every token
+            const completed = partialUI?.completed_fields.join(",");
+            if (partialUI && completed !== lastCompleted) {
+              lastCompleted = completed || "";
+              const { intent_detection, ux_mode, response_content } = partial as AIResponse;
+              send({
+                type: "partial",
+                structured: restorePii({ intent_detection, ux_mode, response_content, ...partialUI }, context.redaction.map),
+              });
+            }
+
+            step = await completionStream.next();
           }
-        } else {
-          parseError = "No valid JSON found in response";
+        } catch (error) {
+          // generateAIResponse charges the prompt; the text that arrived before the stop is charged here
+          context.meter.tokens += estimateTokens(content);
+          throw error;
         }
+
+        return step.value;
+      };
+
+      try {
+        const generation = await generateAIResponse({
+          ...options,
+          firstAttempt: streamFirstAttempt,
+          onRetry: (failed) => send({ type: "retry", attempt: failed.attempt + 1 }),
+        });
+        const payload = await finishTurn(generation, context);
+        send(toFinalEvent(payload));
+      } catch (error) {
+        // The client stopped reading, so there is no one to send an error to
+        if (clientSignal.aborted) return;
+        console.error("Chat stream error:", error);
+        const chatError = toChatError(error);
+        const payload = buildErrorPayload(chatError, context.latestUserMessage, context.session.id);
+        await auditTurn("error", payload.structured, {
+          startTime: context.startTime,
+          sessionId: context.session.id,
+          latestUserMessage: context.latestUserMessage,
+          promptVersion: promptKey(context.prompt),
+          provider: error instanceof ProviderError ? error.provider : null,
+          model: null,
+          rawContent: null,
+        });
+        send(toFinalEvent(payload));
+      } finally {
+        await chargeTokens(context.meter);
+        if (!clientSignal.aborted) controller.close();
       }
-    }
+    },
+  });
+
+  return new Response(body, { headers: NDJSON_HEADERS });
+}
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  // Kept outside the try so the fallback UI can still check it for red flags
+  let latestUserMessage = "";
+  let sessionId: string | undefined;
+  let promptVersion: string | null = null;
+  // Set once the session is known; a streamed turn charges it when the stream ends
+  let meter: TokenMeter | null = null;
+
+  try {
+    const body = await request.json().catch(() => {
+      throw new ChatError("validation", "Request body must be valid JSON");
+    });
+    const { sessionId: requestedId, message, stream = false } = parseChatRequest(body);
+    latestUserMessage = message;
+
+    // Checked before a session is created, so new sessions can't be used to dodge it
+    const rateLimits = getRateLimitConfig();
+    const clientIp = getClientIp(request.headers);
+    const ipLimit = await checkRequestLimit("ip", clientIp, rateLimits);
+    if (ipLimit) throw limitError(ipLimit);
+    const { prompt, source: promptSource } = selectPrompt(request.headers.get(PROMPT_HEADER));
+    promptVersion = promptKey(prompt);
 
-    // If we got a valid AI response, apply frontend rules to build final UI
-    let buildResult = null;
-    if (parsedResponse && parsedResponse.intent_detection && parsedResponse.ux_mode && parsedResponse.response_content) {
-      // Pass clarifying count for safety net enforcement
-      buildResult = buildFinalUI(parsedResponse, clarifyingCount);
+    // Unknown or expired ids get a fresh session; clients never choose their own id
+    const store = getSessionStore();
+    const session = (requestedId && await store.get(requestedId)) || await store.create();
+    sessionId = session.id;
+    if (session.turns.length >= MAX_SESSION_TURNS) {
+      throw new ChatError("validation", "This conversation has reached its length limit. Start a new conversation to continue.");
     }
+    const owner: BudgetOwner = { sessionId: session.id, ip: clientIp };
+    const sessionLimit = await checkRequestLimit("session", session.id, rateLimits)
+      ?? await checkTokenBudget(owner, rateLimits);
+    if (sessionLimit) throw limitError(sessionLimit);
+    const turnMeter: TokenMeter = { owner, config: rateLimits, tokens: 0 };
+    meter = turnMeter;
 
-    return NextResponse.json({
-      success: !!parsedResponse && !!buildResult,
-      // Include both AI response and frontend-computed results
-      structured: parsedResponse ? {
-        // Original AI analysis (for debug panel)
-        intent_detection: parsedResponse.intent_detection,
-        ux_mode: parsedResponse.ux_mode,
-        response_content: parsedResponse.response_content,
-        // Frontend-computed (for rendering and debug)
-        ...(buildResult || {}),
-        // Add clarifying question tracking info
-        clarifying_context: {
-          count: clarifyingCount + (parsedResponse.ux_mode?.mode === "clarification" ? 1 : 0),
-          max: 2,
-          exhausted: clarifyingExhausted,
-        },
-      } : null,
-      rawContent: rawContent,
-      parseError: parseError,
-      debug: {
-        finishReason: data.choices?.[0]?.finish_reason || "unknown",
-        model: data.model,
-        usage: data.usage,
-        promptVersion: "lite",
+    const messages: SessionTurn[] = [...session.turns, { role: "user", content: latestUserMessage }];
+
+    // Personal details are swapped for placeholders before anything reaches the provider
+    const redactionEnabled = isRedactionEnabled();
+    const { value: providerTurns, map, types } = redactionEnabled
+      ? redactPii(messages)
+      : { value: messages, map: {}, types: {} };
+    const redaction = { enabled: redactionEnabled, map, types };
+    const redactedMessage = providerTurns[providerTurns.length - 1].content;
+    const userMessages = providerTurns.filter((m) => m.role === "user");
+
+    // Count consecutive clarifying questions from the stored turns
+    const clarifyingCount = countConsecutiveClarifyingQuestions(session.turns);
+    const clarifyingExhausted = clarifyingCount >= MAX_CLARIFYING_QUESTIONS;
+
+    // Deterministic emergency check, independent of the model
+    const redFlag = detectRedFlags(latestUserMessage)[0] ?? null;
+
+    // Every provider call stops when the client disconnects or the timeout passes
+    const signal = AbortSignal.any([request.signal, AbortSignal.timeout(getTimeoutMs())]);
+
+    // Injection attempts get a fixed refusal and never reach the main prompt
+    const provider = getProvider();
+    const injection = await runInjectionCheck(redactedMessage, provider, signal);
+    turnMeter.tokens += injection.usage?.total_tokens ?? 0;
+    if (injection.match) {
+      const payload = buildInjectionPayload(injection.match, injection, {
+        startTime,
+        session,
+        prompt,
+        promptSource,
+        latestUserMessage,
         conversationTurns: messages.length,
-        clarifyingQuestionsAsked: clarifyingCount,
-      },
+        clarifyingCount,
+        clarifyingExhausted,
+        redFlag,
+        // The blocked message is not stored, so it adds no facts
+        caseState: buildCaseState(session.turns),
+        redaction,
+      });
+      await auditTurn("injection_blocked", payload.structured, {
+        startTime,
+        sessionId: session.id,
+        latestUserMessage,
+        promptVersion,
+        provider: null,
+        model: null,
+        rawContent: null,
+      });
+      await saveTurn({ session }, WITHHELD_MESSAGE, payload);
+      return respondWithPayload(payload, stream);
+    }
+
+    // Repeated first questions reuse an earlier answer without calling the model
+    const bypass = cacheBypassReason(session, redFlag, redaction);
+    const cached = bypass ? null : await getCachedResponse(latestUserMessage, promptVersion, provider.model);
+    if (cached) {
+      const payload = buildCachedPayload(cached, session);
+      await auditTurn("cached", payload.structured, {
+        startTime,
+        sessionId: session.id,
+        latestUserMessage,
+        promptVersion,
+        provider: payload.debug.provider,
+        model: cached.model,
+        rawContent: payload.rawContent,
+      });
+      await saveTurn({ session }, latestUserMessage, payload);
+      return respondWithPayload(payload, stream);
+    }
+
+    // Ground the answer in the local corpus
+    const passages = isRetrievalEnabled()
+      ? await retrievePassages(userMessages.slice(-RETRIEVAL_QUERY_TURNS).map((m) => m.content).join("\n"))
+      : null;
+
+    // System instructions with the user's message in an escaped slot, then per-turn context
+    let systemPrompt = renderTemplate(prompt.template, { user_question: userContent(redactedMessage) });
+    systemPrompt += renderConversationContext({
+      clarifyingCount,
+      clarifyingMax: MAX_CLARIFYING_QUESTIONS,
+      redFlagLabel: redFlag?.label ?? null,
     });
+
+    // Structured facts from earlier turns, so the model doesn't re-ask them
+    const caseState = buildCaseState(providerTurns);
+    systemPrompt += formatCaseState(caseState);
+    if (passages) systemPrompt += formatRetrievedContext(passages);
+
+    // System prompt + multi-turn history, with older turns summarized once over budget
+    const history = compactHistory(systemPrompt, providerTurns, getHistoryBudget());
+    const providerMessages: ChatMessage[] = history.messages;
+
+    const dosagePolicy = getDosagePolicy();
+    const sourcePolicy = getSourcePolicy();
+    const generateOptions: GenerateOptions = {
+      messages: providerMessages,
+      maxTokens: 4096,
+      primary: provider,
+      fallback: getFallbackProvider(),
+      policy: {
+        ...DEFAULT_RETRY_POLICY,
+        maxAttempts: Number(process.env.LLM_MAX_ATTEMPTS) || DEFAULT_RETRY_POLICY.maxAttempts,
+      },
+      // Dosage hits count as a failed attempt and go back to the model
+      check: dosagePolicy === "regenerate"
+        ? (response) => describeDosageHits(scanDosage(response))
+        : undefined,
+      adapt: prompt.outputSchema === "full" ? adaptFullPromptOutput : undefined,
+      signal,
+      // Every attempt is charged, including failed and stopped ones
+      onUsage: (usage) => {
+        turnMeter.tokens += usage.total_tokens;
+      },
+    };
+    const context: TurnContext = {
+      startTime,
+      session,
+      prompt,
+      promptSource,
+      latestUserMessage,
+      conversationTurns: messages.length,
+      clarifyingCount,
+      clarifyingExhausted,
+      redFlag,
+      dosagePolicy,
+      sourcePolicy,
+      passages,
+      history: history.report,
+      caseState,
+      injection,
+      meter: turnMeter,
+      cache: { status: bypass ? { status: "bypass", reason: bypass } : { status: "miss" }, model: provider.model },
+      redaction,
+    };
+
+    if (stream) {
+      const completionStream = provider.stream({ messages: providerMessages, maxTokens: 4096, signal });
+      const response = await streamChatResponse(generateOptions, completionStream, context, request.signal);
+      meter = null;
+      return response;
+    }
+
+    const generation = await generateAIResponse(generateOptions);
+    return respondWithPayload(await finishTurn(generation, context), false);
   } catch (error) {
-    console.error("Chat API error:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
-    );
+    // Stopped, reset or navigated away: nobody is waiting for an answer
+    if (request.signal.aborted) return new Response(null, { status: 499 });
+
+    const chatError = toChatError(error);
+    if (chatError.code !== "validation" && chatError.code !== "rate_limited") {
+      console.error("Chat API error:", error);
+    }
+
+    const payload = buildErrorPayload(chatError, latestUserMessage, sessionId);
+    // Refused requests are not turns, and logging them would let a flood fill the audit log
+    if (chatError.code !== "rate_limited") {
+      await auditTurn("error", payload.structured, {
+        startTime,
+        sessionId,
+        latestUserMessage,
+        promptVersion,
+        provider: error instanceof ProviderError ? error.provider : null,
+        model: null,
+        rawContent: null,
+      });
+    }
+
+    return respondWithPayload(payload, false);
+  } finally {
+    if (meter) await chargeTokens(meter);
   }
 }
@@ -1,48 +1,87 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { ResponseRenderer, ResponseLoader } from "./remedy";
+import { Button, ResponseRenderer, ResponseLoader } from "./remedy";
 import { DebugPanel } from "./DebugPanel";
 import { TestScenarios } from "./TestScenarios";
-
-// Types for the structured response
-interface FinalUI {
-  components: Array<{
-    type: string;
-    content: unknown;
-  }>;
-}
-
-interface StructuredResponse {
-  final_ui?: FinalUI;
-  exit_state?: {
-    waiting_for_structured_input: boolean;
-    returns_to_free_text: boolean;
-  };
-  ux_mode?: {
-    mode: string;
-    reason: string;
-  };
-  [key: string]: unknown;
+import { ConversationList } from "./ConversationList";
+import { useRemedyConversation } from "@/hooks/useRemedyConversation";
+import { useSavedConversations } from "@/hooks/useSavedConversations";
+import type { ChatErrorBody, ChatErrorCode } from "@/lib/chatErrors";
+
+/**
+ * What the user sees for each error code, under whatever UI the server sent.
+ * null means the code needs no notice: validation errors go back to the prompt
+ * bar, and a policy block already carries its own refusal.
+ */
+const ERROR_NOTICES: Record<ChatErrorCode, string | null> = {
+  validation: null,
+  rate_limited: "You're sending messages too quickly.",
+  upstream_timeout: "The assistant took too long to answer.",
+  upstream_rate_limited: "The assistant is getting a lot of requests right now. Wait a moment, then try again.",
+  upstream_error: "The assistant is unavailable right now.",
+  parse_failure: "The assistant's answer couldn't be read.",
+  policy_blocked: null,
+  internal: "Something went wrong on our side.",
+};
+
+// Rate limits use the server's message, which says which limit was reached
+function errorNotice(error: ChatErrorBody): string | null {
+  return error.code === "rate_limited" ? error.message : ERROR_NOTICES[error.code];
 }
 
-interface Message {
-  role: "user" | "assistant";
-  content: string;
-  structured?: StructuredResponse | null;
+// "42s", "3m 05s" or "5h 03m"
+function formatCountdown(seconds: number): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${pad(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${pad(Math.floor((seconds % 3600) / 60))}m`;
 }
 
 export default function Chat() {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [input, setInput] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
-  const [inputDisabled, setInputDisabled] = useState(false);
+  const {
+    id: conversationId,
+    activeTestId,
+    messages,
+    input,
+    setInput,
+    inputError,
+    isLoading,
+    inputLocked: inputDisabled,
+    streaming,
+    cooldownSeconds,
+    latestUserQuestion,
+    loadTimeMs: lastLoadTime,
+    setLoadTime,
+    send,
+    selectOption,
+    retry,
+    stop,
+    returnToConversation,
+    reset,
+    restore,
+    snapshot,
+  } = useRemedyConversation();
+  const { conversations, loaded, save, rename, remove, open } = useSavedConversations();
   const [debugPanelOpen, setDebugPanelOpen] = useState(false);
-  const [latestUserQuestion, setLatestUserQuestion] = useState("");
-  const [lastLoadTime, setLastLoadTime] = useState<number | null>(null);
-  const [activeTestId, setActiveTestId] = useState<number | null>(null);
+  const [conversationsOpen, setConversationsOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const loadStartTimeRef = useRef<number | null>(null);
+  const restoredRef = useRef(false);
+  const coolingDown = cooldownSeconds > 0;
+
+  // Save whenever a turn settles, so a reload brings the conversation back as it was
+  useEffect(() => {
+    if (snapshot) void save(snapshot);
+  }, [snapshot, save]);
+
+  // Pick up the most recent conversation once the saved list has been read
+  useEffect(() => {
+    if (!loaded || restoredRef.current) return;
+    restoredRef.current = true;
+    const latest = conversations[0];
+    if (!latest || conversationId) return;
+    void open(latest.id).then((stored) => stored && restore(stored));
+  }, [loaded, conversations, conversationId, open, restore]);
 
   const scrollToBottom = () => {
     // Use a small delay to ensure DOM has fully updated, then scroll
@@ -58,268 +97,61 @@ export default function Chat() {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim() || isLoading || inputDisabled) return;
-
-    // Clear test results if this is a follow-up message (not the initial test)
-    if (messages.length > 0) {
-      setActiveTestId(null);
-    }
-
-    const userMessage: Message = { role: "user", content: input.trim() };
-    const newMessages = [...messages, userMessage];
-    setMessages(newMessages);
-    setInput("");
-    setLatestUserQuestion(input.trim());
-    setIsLoading(true);
-    loadStartTimeRef.current = Date.now();
+    if (!input.trim() || isLoading || inputDisabled || coolingDown) return;
 
-    try {
-      // Format messages with structured data for conversation history
-      const formattedMessages = newMessages.map(m => ({
-        role: m.role,
-        content: m.content,
-        structured: m.structured ? {
-          ux_mode: m.structured.ux_mode,
-          response_content: m.structured,
-        } : undefined,
-      }));
-
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ messages: formattedMessages, isNewConversation: true }),
-      });
-
-      const data = await response.json();
-      console.log("API Response:", JSON.stringify(data, null, 2));
-
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to get response");
-      }
-
-      // Check if we got a successful structured response
-      if (data.success && data.structured) {
-        const structured = data.structured as StructuredResponse;
-        console.log("Structured response:", structured);
-
-        // Check if input should be disabled (clarifying question present)
-        if (structured.exit_state?.waiting_for_structured_input) {
-          setInputDisabled(true);
-        }
-
-        const assistantMessage: Message = {
-          role: "assistant",
-          content: "", // No text content, using structured UI
-          structured: structured,
-        };
-        setMessages([...newMessages, assistantMessage]);
-      } else {
-        // Fallback if JSON parsing failed
-        console.warn("Parse error:", data.parseError);
-        console.log("Raw content:", data.rawContent);
-
-        const assistantMessage: Message = {
-          role: "assistant",
-          content: "Sorry, something went wrong. Please try again.",
-          structured: null,
-        };
-        setMessages([...newMessages, assistantMessage]);
-      }
-    } catch (error) {
-      console.error("Error:", error);
-      setMessages([
-        ...newMessages,
-        {
-          role: "assistant",
-          content: "Sorry, there was an error processing your request.",
-          structured: null,
-        },
-      ]);
-    } finally {
-      if (loadStartTimeRef.current) {
-        setLastLoadTime(Date.now() - loadStartTimeRef.current);
-      }
-      setIsLoading(false);
-    }
+    // A follow-up clears the test results; the conversation is no longer the test scenario
+    send(input);
   };
 
   const handleOptionSelect = (option: string) => {
     console.log("Option selected:", option);
-    setInputDisabled(false);
-    // Clear test results after first response (follow-up is no longer the test scenario)
-    setActiveTestId(null);
     // Send the selected option as a new message
-    const userMessage: Message = { role: "user", content: option };
-    setMessages([...messages, userMessage]);
-    // Trigger a new API call with the selected option
-    handleOptionSubmit(option);
-  };
-
-  const handleOptionSubmit = async (option: string) => {
-    setIsLoading(true);
-    loadStartTimeRef.current = Date.now();
-    const newMessages = [...messages, { role: "user" as const, content: option }];
-
-    try {
-      // Format messages with structured data for conversation history
-      const formattedMessages = newMessages.map(m => ({
-        role: m.role,
-        content: m.content,
-        structured: m.structured ? {
-          ux_mode: m.structured.ux_mode,
-          response_content: m.structured,
-        } : undefined,
-      }));
-
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ messages: formattedMessages, isNewConversation: false }),
-      });
-
-      const data = await response.json();
-      console.log("API Response:", JSON.stringify(data, null, 2));
-
-      if (data.success && data.structured) {
-        const structured = data.structured as StructuredResponse;
-        if (structured.exit_state?.waiting_for_structured_input) {
-          setInputDisabled(true);
-        } else {
-          setInputDisabled(false);
-        }
-
-        const assistantMessage: Message = {
-          role: "assistant",
-          content: "",
-          structured: structured,
-        };
-        setMessages([...newMessages, assistantMessage]);
-      } else {
-        const assistantMessage: Message = {
-          role: "assistant",
-          content: "Sorry, something went wrong. Please try again.",
-          structured: null,
-        };
-        setMessages([...newMessages, assistantMessage]);
-      }
-    } catch (error) {
-      console.error("Error:", error);
-      const assistantMessage: Message = {
-        role: "assistant",
-        content: "Sorry, something went wrong. Please try again.",
-        structured: null,
-      };
-      setMessages([...newMessages, assistantMessage]);
-    } finally {
-      if (loadStartTimeRef.current) {
-        setLastLoadTime(Date.now() - loadStartTimeRef.current);
-      }
-      setIsLoading(false);
-    }
+    selectOption(option);
   };
 
   const handleReturnToConversation = () => {
     console.log("Returning to conversation");
-    setInputDisabled(false);
+    returnToConversation();
   };
 
   const handleCTAClick = (type: "primary" | "secondary") => {
     console.log("CTA clicked:", type);
   };
 
+  // Starts a new conversation; the current one stays in the saved list
   const handleResetChat = () => {
-    setMessages([]);
-    setInput("");
-    setIsLoading(false);
-    setInputDisabled(false);
-    setLatestUserQuestion("");
-    setLastLoadTime(null);
-    setActiveTestId(null);
-    loadStartTimeRef.current = null;
+    reset();
+    setConversationsOpen(false);
+  };
+
+  const handleSelectConversation = async (id: string) => {
+    setConversationsOpen(false);
+    if (id === conversationId) return;
+    const stored = await open(id);
+    if (stored) restore(stored);
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    if (id === conversationId) reset();
+    void remove(id);
   };
 
   const handleSelectTest = (testInput: string, testId: number) => {
-    setActiveTestId(testId);
     setInput(testInput);
     // Auto-submit after a brief delay to show the input
     setTimeout(() => {
-      // Manually trigger the submit logic
-      const userMessage: Message = { role: "user", content: testInput };
-      const newMessages = [...messages, userMessage];
-      setMessages(newMessages);
-      setInput("");
-      setLatestUserQuestion(testInput);
-      setIsLoading(true);
-      loadStartTimeRef.current = Date.now();
-
-      // Call API
-      (async () => {
-        try {
-          const formattedMessages = newMessages.map(m => ({
-            role: m.role,
-            content: m.content,
-            structured: m.structured ? {
-              ux_mode: m.structured.ux_mode,
-              response_content: m.structured,
-            } : undefined,
-          }));
-
-          const response = await fetch("/api/chat", {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ messages: formattedMessages, isNewConversation: true }),
-          });
-
-          const data = await response.json();
-          console.log("API Response:", JSON.stringify(data, null, 2));
-
-          if (!response.ok) {
-            throw new Error(data.error || "Failed to get response");
-          }
-
-          if (data.success && data.structured) {
-            const structured = data.structured as StructuredResponse;
-            if (structured.exit_state?.waiting_for_structured_input) {
-              setInputDisabled(true);
-            }
-            const assistantMessage: Message = {
-              role: "assistant",
-              content: "",
-              structured: structured,
-            };
-            setMessages([...newMessages, assistantMessage]);
-          } else {
-            const assistantMessage: Message = {
-              role: "assistant",
-              content: "Sorry, something went wrong. Please try again.",
-              structured: null,
-            };
-            setMessages([...newMessages, assistantMessage]);
-          }
-        } catch (error) {
-          console.error("Error:", error);
-          setMessages([
-            ...newMessages,
-            {
-              role: "assistant",
-              content: "Sorry, there was an error processing your request.",
-              structured: null,
-            },
-          ]);
-        } finally {
-          if (loadStartTimeRef.current) {
-            setLastLoadTime(Date.now() - loadStartTimeRef.current);
-          }
-          setIsLoading(false);
-        }
-      })();
+      send(testInput, testId);
     }, 100);
   };
 
+  // Clarifying questions from before a lost server session can't be answered any more
+  const contextLostAt = messages.findLastIndex((m) => m.contextLost);
+
   // Get the latest structured response for debug panel
-  const latestStructuredResponse = [...messages]
+  const latestAssistantMessage = [...messages]
     .reverse()
-    .find((m) => m.role === "assistant" && m.structured)?.structured || null;
+    .find((m) => m.role === "assistant" && m.structured);
+  const latestStructuredResponse = latestAssistantMessage?.structured || null;
 
   return (
     <div className="min-h-screen bg-[#f5f5f5] flex">
@@ -335,13 +167,29 @@ export default function Chat() {
         } max-md:right-0`}>
           <div className="px-4 py-3 md:px-6 md:py-4 bg-gradient-to-b from-[#f5f5f5] via-[#f5f5f5] to-transparent">
             <div className="flex items-center justify-between">
-              {/* Left side - Title: stacked on mobile, inline on desktop */}
-              <div className="flex flex-col md:flex-row md:items-baseline md:gap-2">
-                <p className="text-black font-bold text-xs md:text-base uppercase tracking-wide">
-                  Project Remedy
-                </p>
-                <span className="hidden md:inline text-black/30 text-base">·</span>
-                <p className="text-black/50 font-medium text-xs md:text-base">Assembled UI Demo</p>
+              {/* Left side - Conversations toggle and title */}
+              <div className="flex items-center gap-1 md:gap-2">
+                <button
+                  onClick={() => setConversationsOpen(!conversationsOpen)}
+                  className={`p-1.5 md:p-2 -ml-1.5 md:-ml-2 rounded-lg transition-colors ${
+                    conversationsOpen
+                      ? "text-black bg-black/5"
+                      : "text-black/60 hover:text-black hover:bg-black/5"
+                  }`}
+                  aria-label="Conversations"
+                >
+                  <svg width="18" height="18" viewBox="0 0 20 20" fill="none">
+                    <path d="M3 5H17M3 10H17M3 15H11" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round"/>
+                  </svg>
+                </button>
+                {/* Title: stacked on mobile, inline on desktop */}
+                <div className="flex flex-col md:flex-row md:items-baseline md:gap-2">
+                  <p className="text-black font-bold text-xs md:text-base uppercase tracking-wide">
+                    Project Remedy
+                  </p>
+                  <span className="hidden md:inline text-black/30 text-base">·</span>
+                  <p className="text-black/50 font-medium text-xs md:text-base">Assembled UI Demo</p>
+                </div>
               </div>
 
               {/* Right side - Action buttons */}
@@ -446,7 +294,9 @@ export default function Chat() {
           {messages.map((message, index) => (
             <div
               key={index}
-              className="w-full max-w-[520px] mx-auto px-3 md:px-0 animate-fade-in-up opacity-0"
+              className={`w-full max-w-[520px] mx-auto px-3 md:px-0 ${
+                message.revealedCount ? "" : "animate-fade-in-up opacity-0"
+              }`}
               style={{ animationFillMode: "forwards" }}
             >
               {message.role === "user" ? (
@@ -464,7 +314,8 @@ export default function Chat() {
                   <ResponseRenderer
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                     finalUI={message.structured.final_ui as any}
-                    onOptionSelect={handleOptionSelect}
+                    revealedCount={message.revealedCount}
+                    onOptionSelect={index > contextLostAt ? handleOptionSelect : undefined}
                     onCTAClick={handleCTAClick}
                     onReturnToConversation={handleReturnToConversation}
                   />
@@ -477,6 +328,17 @@ export default function Chat() {
                   </p>
                 </div>
               )}
+              {/* Error notice, with a retry on the latest response when the error is temporary */}
+              {message.error && errorNotice(message.error) && (
+                <div className="flex flex-col items-start gap-2 px-2 md:px-5 mt-3 max-w-full md:max-w-[380px]">
+                  <p className="text-sm text-black/60">{errorNotice(message.error)}</p>
+                  {message.error.retryable && index === messages.length - 1 && (
+                    <Button fullWidth={false} onClick={() => retry(index)} disabled={isLoading || coolingDown}>
+                      {coolingDown ? `Try again in ${formatCountdown(cooldownSeconds)}` : "Try again"}
+                    </Button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
           {isLoading && (
@@ -485,9 +347,18 @@ export default function Chat() {
               style={{ animationFillMode: "forwards" }}
             >
               <div className="flex flex-col items-start max-w-full md:max-w-[380px]">
+                {/* Components streamed in so far (not interactive until final) */}
+                {streaming?.structured.final_ui && (
+                  <ResponseRenderer
+                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                    finalUI={streaming.structured.final_ui as any}
+                    revealedCount={streaming.revealedCount}
+                  />
+                )}
                 <ResponseLoader
                   isLoading={isLoading}
-                  onLoadTimeUpdate={setLastLoadTime}
+                  streamedComponentCount={streaming?.structured.final_ui?.components.length ?? 0}
+                  onLoadTimeUpdate={setLoadTime}
                 />
               </div>
             </div>
@@ -503,10 +374,15 @@ export default function Chat() {
               : "left-1/2 -translate-x-1/2"
           }`}
         >
+          {inputError && (
+            <p role="alert" className="mb-2 px-4 text-sm text-red-600">
+              {inputError}
+            </p>
+          )}
           <form
             onSubmit={handleSubmit}
             className={`bg-white border border-black/20 rounded-[28px] md:rounded-[34px] p-1.5 md:p-2 shadow-sm transition-opacity duration-300 ${
-              inputDisabled ? "opacity-40" : "opacity-100"
+              inputDisabled || coolingDown ? "opacity-40" : "opacity-100"
             }`}
           >
             <div className="flex items-center gap-2 pl-3">
@@ -517,48 +393,75 @@ export default function Chat() {
                 placeholder={
                   inputDisabled
                     ? "Please select an option above"
+                    : coolingDown
+                    ? `You can send another message in ${formatCountdown(cooldownSeconds)}`
                     : messages.length === 0
                     ? "Ask a health-related question"
                     : "Ask a follow-up"
                 }
                 className="flex-1 py-1.5 md:py-2 text-sm md:text-base font-medium text-black placeholder:text-[#a6a6a6] bg-transparent focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
-                disabled={isLoading || inputDisabled}
+                disabled={isLoading || inputDisabled || coolingDown}
               />
-              <button
-                type="submit"
-                disabled={isLoading || !input.trim() || inputDisabled}
-                className="w-9 h-9 md:w-10 md:h-10 rounded-full bg-black text-white flex items-center justify-center hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
-                aria-label="Send message"
-              >
-                <svg
-                  width="18"
-                  height="18"
-                  viewBox="0 0 20 20"
-                  fill="none"
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="md:w-5 md:h-5"
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={stop}
+                  className="w-9 h-9 md:w-10 md:h-10 rounded-full bg-black text-white flex items-center justify-center hover:bg-zinc-800 transition-colors shrink-0"
+                  aria-label="Stop response"
                 >
-                  <path
-                    d="M10 15.8333V4.16667"
-                    stroke="currentColor"
-                    strokeWidth="1.5"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  />
-                  <path
-                    d="M4.16667 10L10 4.16667L15.8333 10"
-                    stroke="currentColor"
-                    strokeWidth="1.5"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                  />
-                </svg>
-              </button>
+                  <svg width="14" height="14" viewBox="0 0 14 14" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <rect x="1" y="1" width="12" height="12" rx="2" fill="currentColor" />
+                  </svg>
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim() || inputDisabled || coolingDown}
+                  className="w-9 h-9 md:w-10 md:h-10 rounded-full bg-black text-white flex items-center justify-center hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shrink-0"
+                  aria-label="Send message"
+                >
+                  <svg
+                    width="18"
+                    height="18"
+                    viewBox="0 0 20 20"
+                    fill="none"
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="md:w-5 md:h-5"
+                  >
+                    <path
+                      d="M10 15.8333V4.16667"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                    <path
+                      d="M4.16667 10L10 4.16667L15.8333 10"
+                      stroke="currentColor"
+                      strokeWidth="1.5"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                    />
+                  </svg>
+                </button>
+              )}
             </div>
           </form>
         </div>
       </div>
 
+      {/* Saved conversations */}
+      <ConversationList
+        isOpen={conversationsOpen}
+        onToggle={() => setConversationsOpen(!conversationsOpen)}
+        conversations={conversations}
+        activeId={conversationId}
+        onSelect={handleSelectConversation}
+        onNew={handleResetChat}
+        onRename={rename}
+        onDelete={handleDeleteConversation}
+      />
+
       {/* Debug Panel */}
       <DebugPanel
         isOpen={debugPanelOpen}
@@ -566,6 +469,7 @@ export default function Chat() {
         latestResponse={latestStructuredResponse}
         userQuestion={latestUserQuestion}
         loadTimeMs={lastLoadTime}
+        cacheStatus={latestAssistantMessage?.cache ?? null}
         activeTestId={activeTestId}
       />
 
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import type { ConversationSummary } from "@/lib/conversationStorage";
+
+interface ConversationListProps {
+  isOpen: boolean;
+  onToggle: () => void;
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Time for today's conversations, otherwise the date
+function formatUpdated(ms: number): string {
+  const date = new Date(ms);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+export function ConversationList({
+  isOpen,
+  onToggle,
+  conversations,
+  activeId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}: ConversationListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  // Delete asks once more before removing anything
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setConfirmingId(null);
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const finishRename = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) onRename(editingId, title);
+    setEditingId(null);
+  };
+
+  return (
+    <>
+      {/* Overlay backdrop */}
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black/20 md:bg-transparent z-30 transition-opacity duration-300"
+          onClick={onToggle}
+        />
+      )}
+
+      {/* Panel - Desktop: Floating panel on left, Mobile: Full screen overlay */}
+      <div
+        className={`fixed z-40 bg-white shadow-xl transition-all duration-300
+          inset-0 w-full
+          md:inset-auto md:top-3 md:left-3 md:bottom-3 md:right-auto md:w-[300px] md:rounded-2xl md:border md:border-black/10
+          ${isOpen ? "translate-x-0 opacity-100" : "-translate-x-full opacity-0 pointer-events-none"}`}
+      >
+        <div className="h-full flex flex-col overflow-hidden md:rounded-2xl">
+          {/* Header */}
+          <div className="px-4 md:px-5 pt-4 md:pt-5 pb-3 md:pb-4 border-b border-black/5">
+            <div className="flex items-start justify-between">
+              <div>
+                <h2 className="text-sm md:text-base font-bold text-black">Conversations</h2>
+                <p className="text-[10px] md:text-xs text-black/40 mt-0.5">Saved in this browser</p>
+              </div>
+              <button
+                onClick={onToggle}
+                className="p-1.5 -mr-1 text-black/40 hover:text-black hover:bg-black/5 rounded-lg transition-colors"
+                aria-label="Close conversations"
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                  <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+              </button>
+            </div>
+            <button
+              onClick={onNew}
+              className="mt-3 w-full px-3 py-2 text-sm font-medium text-white bg-black hover:bg-zinc-800 rounded-lg transition-colors"
+            >
+              New conversation
+            </button>
+          </div>
+
+          {/* List */}
+          <div className="flex-1 scrollbar-minimal p-2">
+            {conversations.length === 0 ? (
+              <p className="px-3 py-8 text-sm text-black/30 text-center">No saved conversations yet</p>
+            ) : (
+              <ul className="space-y-0.5">
+                {conversations.map((conversation) => {
+                  const isActive = conversation.id === activeId;
+                  return (
+                    <li
+                      key={conversation.id}
+                      className={`group flex items-center gap-1 rounded-lg transition-colors ${
+                        isActive ? "bg-black/5" : "hover:bg-black/[0.03]"
+                      }`}
+                    >
+                      {editingId === conversation.id ? (
+                        <input
+                          autoFocus
+                          value={draftTitle}
+                          onChange={(e) => setDraftTitle(e.target.value)}
+                          onBlur={finishRename}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") finishRename();
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                          className="flex-1 min-w-0 mx-1 my-1 px-2 py-1.5 text-sm text-black bg-white border border-black/20 rounded-md focus:outline-none"
+                          aria-label="Conversation title"
+                        />
+                      ) : (
+                        <button
+                          onClick={() => onSelect(conversation.id)}
+                          className="flex-1 min-w-0 text-left px-3 py-2"
+                        >
+                          <p className={`text-sm truncate ${isActive ? "font-medium text-black" : "text-black/70"}`}>
+                            {conversation.title}
+                          </p>
+                          <p className="text-[10px] text-black/40 mt-0.5">{formatUpdated(conversation.updatedAt)}</p>
+                        </button>
+                      )}
+
+                      {editingId !== conversation.id && (
+                        confirmingId === conversation.id ? (
+                          <button
+                            onClick={() => {
+                              setConfirmingId(null);
+                              onDelete(conversation.id);
+                            }}
+                            onBlur={() => setConfirmingId(null)}
+                            autoFocus
+                            className="shrink-0 mr-1 px-2 py-1 text-xs font-medium text-red-700 bg-red-50 hover:bg-red-100 rounded-md transition-colors"
+                          >
+                            Delete
+                          </button>
+                        ) : (
+                          <div className="shrink-0 flex items-center mr-1 md:opacity-0 md:group-hover:opacity-100 md:focus-within:opacity-100 transition-opacity">
+                            <button
+                              onClick={() => startRename(conversation)}
+                              className="p-1.5 text-black/40 hover:text-black hover:bg-black/5 rounded-md transition-colors"
+                              aria-label="Rename conversation"
+                            >
+                              <svg width="14" height="14" viewBox="0 0 16 16" fill="none">
+                                <path d="M11 2.5L13.5 5L5.5 13H3V10.5L11 2.5Z" stroke="currentColor" strokeWidth="1.5" strokeLinejoin="round"/>
+                              </svg>
+                            </button>
+                            <button
+                              onClick={() => {
+                                setEditingId(null);
+                                setConfirmingId(conversation.id);
+                              }}
+                              className="p-1.5 text-black/40 hover:text-red-700 hover:bg-red-50 rounded-md transition-colors"
+                              aria-label="Delete conversation"
+                            >
+                              <svg width="14" height="14" viewBox="0 0 16 16" fill="none">
+                                <path d="M3 4.5H13M6.5 4.5V3H9.5V4.5M4.5 4.5L5 13H11L11.5 4.5" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+                              </svg>
+                            </button>
+                          </div>
+                        )
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
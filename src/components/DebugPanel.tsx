@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { testScenarios, evaluateTest, TestEvaluation, TestResult } from "@/data/testScenarios";
+import type { CacheBypassReason, CacheStatus } from "@/lib/responseCache";
 
 interface StructuredResponse {
   intent_detection?: {
@@ -64,6 +65,15 @@ interface StructuredResponse {
     max: number;
     exhausted: boolean;
   };
+  case_state?: {
+    age_group?: string;
+    symptoms: string[];
+    duration?: string;
+    medications: string[];
+    pregnancy?: string;
+    severity?: string;
+    answers: Array<{ question: string; answer: string }>;
+  };
   [key: string]: unknown;
 }
 
@@ -73,9 +83,17 @@ interface DebugPanelProps {
   latestResponse: StructuredResponse | null;
   userQuestion: string;
   loadTimeMs?: number | null;
+  cacheStatus?: CacheStatus | null;
   activeTestId?: number | null;
 }
 
+const CACHE_BYPASS_LABELS: Record<CacheBypassReason, string> = {
+  disabled: "Cache off",
+  follow_up: "Not cached: follow-up",
+  red_flag: "Not cached: red flag",
+  personal_details: "Not cached: personal details",
+};
+
 // All available intents in the system
 const ALL_INTENTS = [
   "Triage (Urgent)",
@@ -109,6 +127,7 @@ export function DebugPanel({
   latestResponse,
   userQuestion,
   loadTimeMs,
+  cacheStatus,
   activeTestId,
 }: DebugPanelProps) {
   const [activeTab, setActiveTab] = useState<"overview" | "test" | "json">("overview");
@@ -117,6 +136,7 @@ export function DebugPanel({
     detection: true,
     components: true,
     state: false,
+    caseState: false,
     rules: false,
   });
 
@@ -129,6 +149,13 @@ export function DebugPanel({
     return `${(ms / 1000).toFixed(2)}s`;
   };
 
+  const formatAge = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  };
+
   // Get active components from final_ui
   const activeComponents = latestResponse?.final_ui?.components.map(c => c.type) || [];
 
@@ -180,6 +207,19 @@ export function DebugPanel({
                 </p>
               </div>
               <div className="flex items-center gap-2">
+                {cacheStatus && (
+                  <div
+                    className={`text-[10px] md:text-xs font-medium px-2 py-0.5 md:py-1 rounded-lg ${
+                      cacheStatus.status === "hit" ? "bg-sky-50 text-sky-700" : "bg-black/[0.04] text-black/50"
+                    }`}
+                  >
+                    {cacheStatus.status === "hit"
+                      ? `Cache hit · ${formatAge(cacheStatus.ageMs)} old`
+                      : cacheStatus.status === "miss"
+                      ? "Cache miss"
+                      : CACHE_BYPASS_LABELS[cacheStatus.reason]}
+                  </div>
+                )}
                 {loadTimeMs !== null && loadTimeMs !== undefined && (
                   <div className={`text-xs md:text-sm font-semibold px-2 md:px-2.5 py-0.5 md:py-1 rounded-lg ${
                     loadTimeMs < 2000 ? "bg-emerald-50 text-emerald-700" :
@@ -499,6 +539,18 @@ export function DebugPanel({
                   </div>
                 </CollapsibleSection>
 
+                {/* Case State Section - facts carried forward across turns */}
+                {latestResponse.case_state && (
+                  <CollapsibleSection
+                    title="Case State"
+                    badge="Frontend"
+                    expanded={expandedSections.caseState}
+                    onToggle={() => toggleSection("caseState")}
+                  >
+                    <CaseStateDetails caseState={latestResponse.case_state} />
+                  </CollapsibleSection>
+                )}
+
                 {/* Applied Rules Section */}
                 {latestResponse.guardrails?.applied_rules && latestResponse.guardrails.applied_rules.length > 0 && (
                   <CollapsibleSection
@@ -607,6 +659,70 @@ function CollapsibleSection({
   );
 }
 
+// Case State Details Component
+function CaseStateDetails({ caseState }: { caseState: NonNullable<StructuredResponse["case_state"]> }) {
+  const facts: Array<[string, string | undefined]> = [
+    ["Age group", caseState.age_group],
+    ["Duration", caseState.duration],
+    ["Severity", caseState.severity],
+    ["Pregnancy", caseState.pregnancy],
+  ];
+  const lists: Array<[string, string[]]> = [
+    ["Symptoms", caseState.symptoms],
+    ["Medications", caseState.medications],
+  ];
+  const isEmpty = facts.every(([, value]) => !value) &&
+    lists.every(([, items]) => items.length === 0) &&
+    caseState.answers.length === 0;
+
+  if (isEmpty) {
+    return <p className="text-[11px] text-black/40">Nothing gathered yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {facts.some(([, value]) => value) && (
+        <div className="space-y-1.5">
+          {facts.filter(([, value]) => value).map(([label, value]) => (
+            <div key={label} className="flex items-center justify-between">
+              <span className="text-[11px] text-black/60">{label}</span>
+              <span className="text-[11px] font-medium text-black">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {lists.filter(([, items]) => items.length > 0).map(([label, items]) => (
+        <div key={label}>
+          <p className="text-[10px] uppercase tracking-wider text-black/40 mb-2">{label}</p>
+          <div className="flex flex-wrap gap-1">
+            {items.map((item) => (
+              <span key={item} className="text-[11px] px-2 py-0.5 rounded-md bg-black/5 text-black/70">
+                {item}
+              </span>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {caseState.answers.length > 0 && (
+        <div>
+          <p className="text-[10px] uppercase tracking-wider text-black/40 mb-2">Clarifying Answers</p>
+          <div className="space-y-1.5">
+            {caseState.answers.map(({ question, answer }, i) => (
+              <div key={i} className="text-[11px] leading-relaxed">
+                <span className="text-black/50">{question}</span>
+                <span className="text-black/30"> → </span>
+                <span className="font-medium text-black">{answer}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Status Dot Component
 function StatusDot({ active, color }: { active: boolean; color?: "red" | "green" }) {
   if (color === "red" && active) {
@@ -16,6 +16,7 @@ const categoryColors: Record<string, { bg: string; border: string; text: string
   "Prevention": { bg: "bg-teal-50", border: "border-teal-200", text: "text-teal-600" },
   "Chronic Care": { bg: "bg-cyan-50", border: "border-cyan-200", text: "text-cyan-600" },
   "Stress Test": { bg: "bg-fuchsia-50", border: "border-fuchsia-200", text: "text-fuchsia-600" },
+  "Adversarial": { bg: "bg-orange-50", border: "border-orange-200", text: "text-orange-600" },
 };
 
 function TestCard({ scenario, onClick }: { scenario: TestScenario; onClick: () => void }) {
@@ -2,6 +2,7 @@
 
 import { Fragment, useState, useRef, useEffect } from "react";
 import { createPortal } from "react-dom";
+import { TrustBadge } from "./TrustBadge";
 
 interface Source {
   title: string;
@@ -9,6 +10,7 @@ interface Source {
   url: string;
   description?: string;
   image_url?: string;
+  trust_tier?: string;
 }
 
 interface CitationTextProps {
@@ -192,6 +194,7 @@ function CitationMarker({
             </div>
           )}
           <span className="text-xs font-medium text-black/70">{source.site_name || "Source"}</span>
+          <TrustBadge tier={source.trust_tier} />
         </div>
 
         {/* Title */}
@@ -207,19 +210,21 @@ function CitationMarker({
         )}
 
         {/* Link hint */}
-        <div className="flex items-center gap-1 mt-3 text-black/40">
-          <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
-            <path
-              d="M8.33 8.33H1.67C1.48 8.33 1.33 8.19 1.33 8V2C1.33 1.81 1.48 1.67 1.67 1.67H4.17V2.5H2.17V7.5H7.83V5.5H8.67V8C8.67 8.19 8.52 8.33 8.33 8.33Z"
-              fill="currentColor"
-            />
-            <path
-              d="M5.83 1.67V2.5H7.16L4.29 5.37L4.88 5.96L7.75 3.09V4.42H8.58V1.67H5.83Z"
-              fill="currentColor"
-            />
-          </svg>
-          <span className="text-[10px]">Click to open</span>
-        </div>
+        {source.url && (
+          <div className="flex items-center gap-1 mt-3 text-black/40">
+            <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+              <path
+                d="M8.33 8.33H1.67C1.48 8.33 1.33 8.19 1.33 8V2C1.33 1.81 1.48 1.67 1.67 1.67H4.17V2.5H2.17V7.5H7.83V5.5H8.67V8C8.67 8.19 8.52 8.33 8.33 8.33Z"
+                fill="currentColor"
+              />
+              <path
+                d="M5.83 1.67V2.5H7.16L4.29 5.37L4.88 5.96L7.75 3.09V4.42H8.58V1.67H5.83Z"
+                fill="currentColor"
+              />
+            </svg>
+            <span className="text-[10px]">Click to open</span>
+          </div>
+        )}
       </div>
     </div>,
     document.body
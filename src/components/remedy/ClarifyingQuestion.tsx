@@ -38,6 +38,8 @@ export function ClarifyingQuestion({
             variant="neutral"
             align="left"
             onClick={() => handleSelect(option)}
+            // Without a handler the question is shown for the record only
+            disabled={!onSelect}
           >
             {option}
           </Button>
@@ -12,6 +12,9 @@ import { useState, useEffect, useCallback, useRef } from "react";
  * - Skeleton appears with "Structuring your answer" phase
  * - Long wait: 30000ms threshold
  * - Resolve transition: 400ms crossfade (smooth)
+ *
+ * When a streamed response starts rendering real components above the loader,
+ * the skeleton is dropped and the phase jumps to "Assembling your response".
  */
 
 type LoaderState = "PHASED_PROGRESS" | "LONG_WAIT_FALLBACK" | "RESOLVE";
@@ -33,11 +36,18 @@ const RESOLVE_DURATION = 400;
 
 interface ResponseLoaderProps {
   isLoading: boolean;
+  // Number of components already rendered from the stream
+  streamedComponentCount?: number;
   onResolveComplete?: () => void;
   onLoadTimeUpdate?: (ms: number) => void;
 }
 
-export function ResponseLoader({ isLoading, onResolveComplete, onLoadTimeUpdate }: ResponseLoaderProps) {
+export function ResponseLoader({
+  isLoading,
+  streamedComponentCount = 0,
+  onResolveComplete,
+  onLoadTimeUpdate,
+}: ResponseLoaderProps) {
   const [state, setState] = useState<LoaderState>("PHASED_PROGRESS");
   const [currentPhaseIndex, setCurrentPhaseIndex] = useState(0);
   const [showLongWait, setShowLongWait] = useState(false);
@@ -94,8 +104,11 @@ export function ResponseLoader({ isLoading, onResolveComplete, onLoadTimeUpdate
     return () => clearTimeout(longWaitTimer);
   }, [isLoading, isResolving]);
 
+  // Real components replace the skeleton once the stream delivers them
+  const hasStreamedContent = streamedComponentCount > 0;
+
   // Show skeleton when we reach the structuring phase
-  const showSkeleton = currentPhaseIndex >= SKELETON_PHASE_INDEX;
+  const showSkeleton = !hasStreamedContent && currentPhaseIndex >= SKELETON_PHASE_INDEX;
 
   // Handle resolve (when isLoading becomes false)
   const handleResolve = useCallback(() => {
@@ -121,7 +134,9 @@ export function ResponseLoader({ isLoading, onResolveComplete, onLoadTimeUpdate
   }, [isLoading, state, handleResolve]);
 
   // Get current active phase label
-  const currentPhaseLabel = PHASES[currentPhaseIndex] || PHASES[PHASES.length - 1];
+  const currentPhaseLabel = hasStreamedContent
+    ? PHASES[PHASES.length - 1]
+    : PHASES[currentPhaseIndex] || PHASES[PHASES.length - 1];
 
   // Don't render if not loading and not resolving
   if (!isLoading && !isResolving) return null;
@@ -38,6 +38,7 @@ interface SourceContent {
   url: string;
   description?: string;
   image_url?: string;
+  trust_tier?: string;
   // Legacy support
   name?: string;
   note?: string;
@@ -103,6 +104,7 @@ function extractSources(content: unknown): SourceContent[] {
       url: extractString(s.url),
       description: s.description ? extractString(s.description) : (s.note ? extractString(s.note) : undefined),
       image_url: s.image_url ? extractString(s.image_url) : undefined,
+      trust_tier: s.trust_tier ? extractString(s.trust_tier) : undefined,
       // Legacy fields
       name: extractString(s.name),
       note: s.note ? extractString(s.note) : undefined,
@@ -134,6 +136,8 @@ interface FinalUI {
 
 interface ResponseRendererProps {
   finalUI: FinalUI;
+  // Leading components already on screen (streamed in earlier) that should not animate again
+  revealedCount?: number;
   onOptionSelect?: (option: string) => void;
   onCTAClick?: (type: "primary" | "secondary") => void;
   onReturnToConversation?: () => void;
@@ -144,6 +148,7 @@ const STAGGER_DELAY = 80;
 
 export function ResponseRenderer({
   finalUI,
+  revealedCount = 0,
   onOptionSelect,
   onCTAClick,
   onReturnToConversation,
@@ -163,18 +168,19 @@ export function ResponseRenderer({
   return (
     <div className="flex flex-col w-full">
       {finalUI.components.map((component, index) => {
-        const delay = index * STAGGER_DELAY;
+        const delay = Math.max(0, index - revealedCount) * STAGGER_DELAY;
 
         // Animation wrapper styles - applied inline to avoid component recreation issues
         const animationStyle = {
           animationDelay: `${delay}ms`,
           animationFillMode: "forwards" as const,
         };
+        const animationClass = index < revealedCount ? "" : "animate-fade-in-up opacity-0";
 
         switch (component.type) {
           case "summary":
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <Summary
                   content={extractString(component.content)}
                   sources={sources}
@@ -186,7 +192,7 @@ export function ResponseRenderer({
           case "safety_alert": {
             const alert = extractSafetyAlert(component.content);
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <SafetyAlert
                   level={alert.level}
                   title={alert.title}
@@ -199,7 +205,7 @@ export function ResponseRenderer({
           case "clarifying_question": {
             const question = extractClarifyingQuestion(component.content);
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <ClarifyingQuestion
                   question={question.question}
                   options={question.options}
@@ -212,7 +218,7 @@ export function ResponseRenderer({
           case "checklist": {
             const checklist = extractChecklist(component.content);
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <Checklist
                   heading={checklist.heading}
                   items={checklist.items}
@@ -226,7 +232,7 @@ export function ResponseRenderer({
           case "cta": {
             const cta = extractCTA(component.content);
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <CTA
                   primary={cta.primary}
                   secondary={cta.secondary}
@@ -240,7 +246,7 @@ export function ResponseRenderer({
           case "sources": {
             const extractedSources = extractSources(component.content);
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <div ref={sourcesRef}>
                   <Sources sources={extractedSources} highlightedIndex={highlightedSource} />
                 </div>
@@ -250,7 +256,7 @@ export function ResponseRenderer({
 
           case "return_to_conversation":
             return (
-              <div key={index} className="animate-fade-in-up opacity-0" style={animationStyle}>
+              <div key={index} className={animationClass} style={animationStyle}>
                 <ReturnToConversation
                   onReturn={onReturnToConversation}
                 />
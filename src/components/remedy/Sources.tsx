@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { createPortal } from "react-dom";
+import { TrustBadge } from "./TrustBadge";
 
 interface Source {
   title: string;
@@ -9,6 +10,8 @@ interface Source {
   url: string;
   description?: string;
   image_url?: string;
+  // Official / clinical / reference, or unverified (no url) when demoted
+  trust_tier?: string;
   // Legacy support
   name?: string;
   note?: string;
@@ -38,6 +41,16 @@ function getFaviconUrl(url: string): string | null {
   }
 }
 
+// Card wrapper: an external link, or a plain block for unlinked sources
+function CardLink({ href, className, children }: { href?: string; className: string; children: React.ReactNode }) {
+  if (!href) return <div className={className}>{children}</div>;
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" className={className}>
+      {children}
+    </a>
+  );
+}
+
 // Source card component with hover overlay
 function SourceCard({
   source,
@@ -59,6 +72,8 @@ function SourceCard({
   const siteName = source.site_name || getHostname(source.url);
   const description = source.description || source.note;
   const faviconUrl = getFaviconUrl(source.url);
+  // Demoted sources arrive without a url and are shown as plain text
+  const isLinked = !!source.url;
 
   // Track mount state for portal
   useEffect(() => {
@@ -153,6 +168,7 @@ function SourceCard({
             </div>
           )}
           <span className="text-xs font-medium text-black/70">{siteName}</span>
+          <TrustBadge tier={source.trust_tier} />
         </div>
 
         {/* Title */}
@@ -168,19 +184,21 @@ function SourceCard({
         )}
 
         {/* Link hint */}
-        <div className="flex items-center gap-1 mt-3 text-black/40">
-          <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
-            <path
-              d="M8.33 8.33H1.67C1.48 8.33 1.33 8.19 1.33 8V2C1.33 1.81 1.48 1.67 1.67 1.67H4.17V2.5H2.17V7.5H7.83V5.5H8.67V8C8.67 8.19 8.52 8.33 8.33 8.33Z"
-              fill="currentColor"
-            />
-            <path
-              d="M5.83 1.67V2.5H7.16L4.29 5.37L4.88 5.96L7.75 3.09V4.42H8.58V1.67H5.83Z"
-              fill="currentColor"
-            />
-          </svg>
-          <span className="text-[10px]">Click to open</span>
-        </div>
+        {isLinked && (
+          <div className="flex items-center gap-1 mt-3 text-black/40">
+            <svg width="10" height="10" viewBox="0 0 10 10" fill="none">
+              <path
+                d="M8.33 8.33H1.67C1.48 8.33 1.33 8.19 1.33 8V2C1.33 1.81 1.48 1.67 1.67 1.67H4.17V2.5H2.17V7.5H7.83V5.5H8.67V8C8.67 8.19 8.52 8.33 8.33 8.33Z"
+                fill="currentColor"
+              />
+              <path
+                d="M5.83 1.67V2.5H7.16L4.29 5.37L4.88 5.96L7.75 3.09V4.42H8.58V1.67H5.83Z"
+                fill="currentColor"
+              />
+            </svg>
+            <span className="text-[10px]">Click to open</span>
+          </div>
+        )}
       </div>
     </div>,
     document.body
@@ -193,10 +211,8 @@ function SourceCard({
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
     >
-      <a
-        href={source.url}
-        target="_blank"
-        rel="noopener noreferrer"
+      <CardLink
+        href={isLinked ? source.url : undefined}
         className={`flex flex-col justify-between gap-1.5 p-3 rounded-xl transition-all duration-200 h-full ${
           isHighlighted ? "bg-black/[0.12]" : "bg-black/[0.04] hover:bg-black/[0.08]"
         }`}
@@ -225,8 +241,9 @@ function SourceCard({
             <span className="text-black/30">·</span>
             <span>{index + 1}</span>
           </p>
+          <TrustBadge tier={source.trust_tier} />
         </div>
-      </a>
+      </CardLink>
 
       {/* Hover overlay rendered via portal */}
       {overlay}
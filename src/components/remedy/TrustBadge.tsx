@@ -0,0 +1,33 @@
+"use client";
+
+interface TrustBadgeProps {
+  // Set by the server-side source allowlist
+  tier?: string;
+}
+
+const tierStyles: Record<string, string> = {
+  official: "bg-[rgba(43,140,85,0.12)] text-[#2b8c55]",
+  clinical: "bg-[rgba(43,108,176,0.12)] text-[#2b6cb0]",
+  reference: "bg-black/[0.06] text-black/60",
+  unverified: "bg-[rgba(208,139,43,0.12)] text-[#a86b17]",
+};
+
+const tierLabels: Record<string, string> = {
+  official: "Official",
+  clinical: "Clinical",
+  reference: "Reference",
+  unverified: "Unverified",
+};
+
+export function TrustBadge({ tier }: TrustBadgeProps) {
+  if (!tier || !tierLabels[tier]) return null;
+
+  return (
+    <span
+      className={`inline-flex items-center px-1.5 h-4 rounded text-[10px] font-medium shrink-0 ${tierStyles[tier]}`}
+      title={tier === "unverified" ? "Not on the trusted publisher list, so not linked" : `Trusted source: ${tierLabels[tier]}`}
+    >
+      {tierLabels[tier]}
+    </span>
+  );
+}
@@ -9,3 +9,4 @@ export { ReturnToConversation } from "./ReturnToConversation";
 export { ResponseRenderer } from "./ResponseRenderer";
 export { ResponseLoader } from "./ResponseLoader";
 export { CitationText } from "./CitationText";
+export { TrustBadge } from "./TrustBadge";
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { conversationReducer, ConversationState, Message, StructuredResponse } from "./useRemedyConversation";
+
+const initial = () => conversationReducer({} as ConversationState, { type: "reset" });
+
+const CLARIFYING: StructuredResponse = {
+  final_ui: { components: [{ type: "clarifying_question", content: { question: "How long?", options: ["Hours", "Days"] } }] },
+  exit_state: { waiting_for_structured_input: true, returns_to_free_text: false },
+};
+
+const ANSWER: StructuredResponse = {
+  final_ui: { components: [{ type: "summary", content: "Rest and drink water." }] },
+  exit_state: { waiting_for_structured_input: false, returns_to_free_text: true },
+};
+
+type ResponseData = Extract<Parameters<typeof conversationReducer>[1], { type: "respond" }>["data"];
+
+function respond(state: ConversationState, history: Message[], text: string, data: ResponseData) {
+  return conversationReducer(state, { type: "respond", data, history, text, loadTimeMs: 500, now: 2000 });
+}
+
+// What the hook dispatches for one message: send, then the server's answer
+function turn(state: ConversationState, text: string, data: ResponseData, history = state.messages) {
+  const sent = conversationReducer(state, { type: "send", text, history, id: state.id ?? "c1", testId: null, now: 1000 });
+  return respond(sent, history, text, data);
+}
+
+describe("conversationReducer", () => {
+  it("locks free text on a clarifying question until an option answers it", () => {
+    let state = conversationReducer(initial(), { type: "send", text: "I have a headache", history: [], id: "c1", testId: null, now: 1000 });
+    expect(state).toMatchObject({ status: "loading", statusBeforeSend: "idle", id: "c1", createdAt: 1000, input: "" });
+
+    state = conversationReducer(state, { type: "partial", structured: CLARIFYING });
+    expect(state.streaming?.structured).toBe(CLARIFYING);
+
+    state = respond(state, [], "I have a headache", { success: true, sessionId: "s1", structured: CLARIFYING });
+    expect(state).toMatchObject({ status: "awaiting-structured-input", sessionId: "s1", streaming: null, updatedAt: 2000 });
+    expect(state.messages[1].revealedCount).toBe(1);
+
+    // selectOption sends the option with the history so far
+    state = turn(state, "Days", { success: true, sessionId: "s1", structured: ANSWER });
+    expect(state.status).toBe("idle");
+    expect(state.messages.map((m) => m.content)).toEqual(["I have a headache", "", "Days", ""]);
+  });
+
+  it("takes a rejected message back out and returns it to the prompt bar", () => {
+    const asked = turn(initial(), "I have a headache", { success: true, sessionId: "s1", structured: CLARIFYING });
+    const rejected = turn(asked, "Days", { error: { code: "validation", message: "Message is too long", retryable: false } });
+
+    expect(rejected.messages).toBe(asked.messages);
+    expect(rejected).toMatchObject({ status: "awaiting-structured-input", input: "Days", inputError: "Message is too long" });
+
+    const edited = conversationReducer(rejected, { type: "edit", input: "Day" });
+    expect(edited.inputError).toBeNull();
+  });
+
+  it("stops back to the status before the send", () => {
+    const asked = turn(initial(), "I have a headache", { success: true, sessionId: "s1", structured: CLARIFYING });
+    const answering = conversationReducer(asked, { type: "send", text: "Days", history: asked.messages, id: "c1", testId: null, now: 3000 });
+    const stoppedAnswer = conversationReducer(answering, { type: "stop", history: asked.messages, text: "Days" });
+    // The option stays with its question rather than in the locked prompt bar
+    expect(stoppedAnswer).toMatchObject({ status: "awaiting-structured-input", input: "", messages: asked.messages });
+
+    const typing = conversationReducer(initial(), { type: "send", text: "Hello", history: [], id: "c1", testId: null, now: 1000 });
+    const stopped = conversationReducer(typing, { type: "stop", history: [], text: "Hello" });
+    expect(stopped).toMatchObject({ status: "idle", input: "Hello", messages: [] });
+  });
+
+  it("retries a failed turn in place of its error response", () => {
+    const failed = turn(initial(), "I have a headache", {
+      success: false,
+      sessionId: "s1",
+      structured: ANSWER,
+      error: { code: "upstream_timeout", message: "Timed out", retryable: true },
+    });
+    expect(failed.status).toBe("error");
+    expect(failed.messages[1].error?.code).toBe("upstream_timeout");
+
+    // retry(index) resends the user message before the error, with the history before that
+    const index = 1;
+    const retried = turn(failed, "I have a headache", { success: true, sessionId: "s1", structured: ANSWER }, failed.messages.slice(0, index - 1));
+    expect(retried.status).toBe("idle");
+    expect(retried.messages).toHaveLength(2);
+    expect(retried.messages[1].error).toBeUndefined();
+  });
+
+  it("pauses sending for a rate limit and resumes when it lifts", () => {
+    const limited = turn(initial(), "Hello", { error: { code: "rate_limited", message: "Slow down", retryable: true, retryAfter: 30 } });
+    expect(limited).toMatchObject({ status: "error", cooldownUntil: 32000 });
+    expect(conversationReducer(limited, { type: "cooldown_end" }).cooldownUntil).toBeNull();
+  });
+
+  it("fails a turn whose request threw", () => {
+    const sent = conversationReducer(initial(), { type: "send", text: "Hello", history: [], id: "c1", testId: null, now: 1000 });
+    const failed = conversationReducer(sent, { type: "fail", error: new TypeError("Failed to fetch"), loadTimeMs: 100, now: 1100 });
+    expect(failed).toMatchObject({ status: "error", updatedAt: 1100 });
+    expect(failed.messages[1].error).toMatchObject({ code: "internal", retryable: true });
+  });
+
+  it("restores a saved conversation with its open question still locked", () => {
+    const asked = turn(initial(), "I have a headache", { success: true, sessionId: "s1", structured: CLARIFYING });
+    const busy = conversationReducer(initial(), { type: "send", text: "Other", history: [], id: "c2", testId: 3, now: 5000 });
+
+    const restored = conversationReducer(busy, {
+      type: "restore",
+      snapshot: {
+        id: "c1",
+        createdAt: 1000,
+        updatedAt: 2000,
+        sessionId: "s1",
+        messages: asked.messages,
+        status: "awaiting-structured-input",
+        latestUserQuestion: "I have a headache",
+        loadTimeMs: 500,
+        activeTestId: null,
+      },
+    });
+    expect(restored).toMatchObject({
+      id: "c1",
+      sessionId: "s1",
+      status: "awaiting-structured-input",
+      statusBeforeSend: "awaiting-structured-input",
+      input: "",
+      streaming: null,
+      activeTestId: null,
+    });
+
+    // Returning to the conversation unlocks free text
+    expect(conversationReducer(restored, { type: "resume" }).status).toBe("idle");
+  });
+
+  it("closes a restored question when the server no longer has its session", () => {
+    const asked = turn(initial(), "I have a headache", { success: true, sessionId: "s1", structured: CLARIFYING });
+
+    // The server kept the session, so the answer stands
+    expect(turn(asked, "Days", { success: true, sessionId: "s1", structured: ANSWER }).messages[3].structured).toBe(ANSWER);
+
+    // After a restart it answered "Days" in a new session, without the question it answers
+    const lost = turn(asked, "Days", { success: true, sessionId: "s2", structured: ANSWER });
+    expect(lost).toMatchObject({ status: "idle", sessionId: null, input: "" });
+    expect(lost.messages).toHaveLength(4);
+    expect(lost.messages[3]).toMatchObject({ role: "assistant", structured: null, contextLost: true });
+
+    // A typed follow-up goes back to the prompt bar to be asked again
+    const answered = turn(initial(), "I have a headache", { success: true, sessionId: "s1", structured: ANSWER });
+    expect(turn(answered, "Is it serious?", { success: true, sessionId: "s2", structured: ANSWER }).input).toBe("Is it serious?");
+  });
+});
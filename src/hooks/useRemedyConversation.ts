@@ -0,0 +1,497 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import type { ChatErrorBody } from "@/lib/chatErrors";
+import type { CacheStatus } from "@/lib/responseCache";
+
+// Types for the structured response
+interface FinalUI {
+  components: Array<{
+    type: string;
+    content: unknown;
+  }>;
+}
+
+export interface StructuredResponse {
+  final_ui?: FinalUI;
+  exit_state?: {
+    waiting_for_structured_input: boolean;
+    returns_to_free_text: boolean;
+  };
+  ux_mode?: {
+    mode: string;
+    reason: string;
+  };
+  [key: string]: unknown;
+}
+
+export interface Message {
+  role: "user" | "assistant";
+  content: string;
+  structured?: StructuredResponse | null;
+  // Leading components already shown while the response streamed in
+  revealedCount?: number;
+  // Set when the response was an error; decides the notice and retry button
+  error?: ChatErrorBody;
+  // Whether the response came from the server's response cache
+  cache?: CacheStatus;
+  // Marks where the server lost the conversation's earlier turns; nothing before it can be answered
+  contextLost?: boolean;
+}
+
+interface ChatResponseData {
+  success?: boolean;
+  sessionId?: string;
+  structured?: StructuredResponse | null;
+  error?: ChatErrorBody;
+  parseError?: string | null;
+  rawContent?: string;
+  debug?: { cache?: CacheStatus };
+  [key: string]: unknown;
+}
+
+export interface StreamingState {
+  structured: StructuredResponse;
+  revealedCount: number;
+}
+
+/**
+ * Where the conversation is:
+ * - idle: free text can be sent
+ * - loading: a request is in flight; it can only be stopped
+ * - awaiting-structured-input: a clarifying question is open, so only its options can answer it
+ * - error: the last turn failed; a new message or a retry can be sent
+ */
+export type ConversationStatus = "idle" | "loading" | "awaiting-structured-input" | "error";
+
+export interface ConversationState {
+  // Assigned when the first message is sent
+  id: string | null;
+  // ms since epoch; createdAt at the first message, updatedAt when a turn finishes
+  createdAt: number | null;
+  updatedAt: number | null;
+  // Server-side session holding the conversation history
+  sessionId: string | null;
+  // Test scenario this conversation started with, until a follow-up is sent
+  activeTestId: number | null;
+  status: ConversationStatus;
+  // Restored if the message in flight is rejected or stopped
+  statusBeforeSend: ConversationStatus;
+  messages: Message[];
+  // Draft in the prompt bar; a rejected or stopped message is put back here
+  input: string;
+  // Why the last message was rejected, shown above the prompt bar
+  inputError: string | null;
+  // Partial response while the current request streams in
+  streaming: StreamingState | null;
+  // When a rate limit lifts (ms since epoch); sending is paused until then
+  cooldownUntil: number | null;
+  latestUserQuestion: string;
+  // How long the last request took, or the current one so far
+  loadTimeMs: number | null;
+}
+
+/**
+ * What is saved between page loads. Taken only while no request is in
+ * flight, so the status is never "loading".
+ */
+export interface ConversationSnapshot {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  sessionId: string | null;
+  messages: Message[];
+  status: ConversationStatus;
+  latestUserQuestion: string;
+  loadTimeMs: number | null;
+  activeTestId: number | null;
+}
+
+type ConversationAction =
+  | { type: "edit"; input: string }
+  | { type: "send"; text: string; history: Message[]; id: string; testId: number | null; now: number }
+  | { type: "partial"; structured: StructuredResponse | null }
+  | { type: "respond"; data: ChatResponseData; history: Message[]; text: string; loadTimeMs: number; now: number }
+  | { type: "fail"; error: unknown; loadTimeMs: number; now: number }
+  | { type: "stop"; history: Message[]; text: string }
+  | { type: "resume" }
+  | { type: "cooldown_end" }
+  | { type: "load_time"; loadTimeMs: number }
+  | { type: "restore"; snapshot: ConversationSnapshot }
+  | { type: "reset" };
+
+const CONTEXT_LOST_MESSAGE =
+  "The earlier messages in this conversation are no longer available to the assistant, so it can't answer in context. Please ask your question again with the details that matter.";
+
+const INITIAL_STATE: ConversationState = {
+  id: null,
+  createdAt: null,
+  updatedAt: null,
+  sessionId: null,
+  activeTestId: null,
+  status: "idle",
+  statusBeforeSend: "idle",
+  messages: [],
+  input: "",
+  inputError: null,
+  streaming: null,
+  cooldownUntil: null,
+  latestUserQuestion: "",
+  loadTimeMs: null,
+};
+
+/**
+ * POST to /api/chat and read the NDJSON event stream.
+ * Calls onPartial as components finish (null when the server retries and the
+ * partial UI should be discarded); resolves with the final payload.
+ * Aborting the signal rejects, and the server stops generating.
+ */
+async function postChat(
+  body: object,
+  onPartial: (structured: StructuredResponse | null) => void,
+  signal: AbortSignal
+): Promise<{ ok: boolean; data: ChatResponseData }> {
+  const response = await fetch("/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    return { ok: false, data: await response.json() };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: { ok: boolean; data: ChatResponseData } = {
+    ok: false,
+    data: { error: { code: "internal", message: "Response stream ended unexpectedly", retryable: true } },
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line);
+      if (event.type === "partial") {
+        onPartial(event.structured);
+      } else if (event.type === "retry") {
+        onPartial(null);
+      } else if (event.type === "final") {
+        result = { ok: true, data: event };
+      } else if (event.type === "error") {
+        result = { ok: false, data: event };
+      }
+    }
+  }
+
+  return result;
+}
+
+// Count leading components of the final UI that were already on screen from the stream
+function countRevealed(streamed: StructuredResponse | null | undefined, structured: StructuredResponse): number {
+  const streamedTypes = streamed?.final_ui?.components.map((c) => c.type) || [];
+  const finalTypes = structured.final_ui?.components.map((c) => c.type) || [];
+  let count = 0;
+  while (count < streamedTypes.length && streamedTypes[count] === finalTypes[count]) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * The status a conversation is left in by its latest message: an open
+ * clarifying question locks free text, and a failed turn is an error.
+ */
+export function statusOf(messages: Message[]): ConversationStatus {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== "assistant") return "idle";
+  if (last.structured?.exit_state?.waiting_for_structured_input) return "awaiting-structured-input";
+  return last.error ? "error" : "idle";
+}
+
+export function conversationReducer(state: ConversationState, action: ConversationAction): ConversationState {
+  switch (action.type) {
+    case "edit":
+      return { ...state, input: action.input, inputError: null };
+
+    case "send":
+      return {
+        ...state,
+        id: action.id,
+        createdAt: state.createdAt ?? action.now,
+        activeTestId: action.testId,
+        status: "loading",
+        statusBeforeSend: state.status,
+        messages: [...action.history, { role: "user", content: action.text }],
+        input: "",
+        inputError: null,
+        streaming: null,
+        latestUserQuestion: action.text,
+        loadTimeMs: 0,
+      };
+
+    // Show components from the stream as soon as each one is final
+    case "partial":
+      return {
+        ...state,
+        streaming: action.structured && {
+          structured: action.structured,
+          revealedCount: countRevealed(state.streaming?.structured, action.structured),
+        },
+      };
+
+    case "respond": {
+      const { data, history, text, loadTimeMs, now } = action;
+
+      // An invalid message is taken back out and returned to the prompt bar
+      if (data.error?.code === "validation") {
+        return {
+          ...state,
+          status: state.statusBeforeSend,
+          messages: history,
+          input: text,
+          inputError: data.error.message,
+          streaming: null,
+          loadTimeMs,
+        };
+      }
+
+      // A saved conversation outlived its server session (the memory store after a restart), so the
+      // server started a new one and answered without the earlier turns. That answer is dropped and
+      // the conversation carries on from a clean session, with any open question closed.
+      if (state.sessionId && data.sessionId && data.sessionId !== state.sessionId) {
+        return {
+          ...state,
+          sessionId: null,
+          updatedAt: now,
+          status: "idle",
+          messages: [
+            ...history,
+            { role: "user", content: text },
+            { role: "assistant", content: CONTEXT_LOST_MESSAGE, structured: null, contextLost: true },
+          ],
+          input: state.statusBeforeSend === "awaiting-structured-input" ? "" : text,
+          streaming: null,
+          loadTimeMs,
+        };
+      }
+
+      const cooldownUntil = data.error?.retryAfter ? now + data.error.retryAfter * 1000 : state.cooldownUntil;
+
+      // Render structured UI, including the server's fallback UI when generation failed
+      const structured = data.structured?.final_ui ? data.structured : null;
+      const messages: Message[] = [
+        ...history,
+        { role: "user", content: text },
+        {
+          role: "assistant",
+          content: structured ? "" : "Sorry, something went wrong. Please try again.",
+          structured,
+          revealedCount: structured ? countRevealed(state.streaming?.structured, structured) : undefined,
+          error: data.error,
+          cache: data.debug?.cache,
+        },
+      ];
+      return {
+        ...state,
+        sessionId: data.sessionId ?? state.sessionId,
+        updatedAt: now,
+        status: statusOf(messages),
+        messages,
+        streaming: null,
+        cooldownUntil,
+        loadTimeMs,
+      };
+    }
+
+    case "fail":
+      return {
+        ...state,
+        status: "error",
+        messages: [
+          ...state.messages,
+          {
+            role: "assistant",
+            content: "Sorry, there was an error processing your request.",
+            structured: null,
+            error: { code: "internal", message: String(action.error), retryable: true },
+          },
+        ],
+        streaming: null,
+        updatedAt: action.now,
+        loadTimeMs: action.loadTimeMs,
+      };
+
+    // The server stores nothing for a stopped turn, so the conversation goes back to how it was.
+    // A stopped option answer stays with its question rather than in the locked prompt bar.
+    case "stop":
+      return {
+        ...state,
+        status: state.statusBeforeSend,
+        messages: action.history,
+        input: state.statusBeforeSend === "awaiting-structured-input" ? "" : action.text,
+        streaming: null,
+      };
+
+    // "Return to conversation" dismisses an open clarifying question
+    case "resume":
+      return state.status === "awaiting-structured-input" ? { ...state, status: "idle" } : state;
+
+    case "cooldown_end":
+      return { ...state, cooldownUntil: null };
+
+    case "load_time":
+      return { ...state, loadTimeMs: action.loadTimeMs };
+
+    // A saved conversation replaces the current one, with any open clarifying question still locked
+    case "restore": {
+      const { snapshot } = action;
+      const status = snapshot.status === "loading" ? statusOf(snapshot.messages) : snapshot.status;
+      return { ...INITIAL_STATE, ...snapshot, status, statusBeforeSend: status };
+    }
+
+    case "reset":
+      return INITIAL_STATE;
+  }
+}
+
+/**
+ * The conversation behind the chat UI: its messages, the request in flight,
+ * what can be sent right now, and how long the last response took.
+ * The server keeps the history; only the new message and the session id are sent.
+ */
+export function useRemedyConversation() {
+  const [state, dispatch] = useReducer(conversationReducer, INITIAL_STATE);
+  const [now, setNow] = useState(() => Date.now());
+  // The request in flight, aborted by stop, reset or leaving the page
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Don't leave the server generating for a page that is gone
+  useEffect(() => () => abortRef.current?.abort("unmount"), []);
+
+  // Tick once a second while a cooldown is running
+  const { cooldownUntil } = state;
+  useEffect(() => {
+    if (cooldownUntil === null) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= cooldownUntil) dispatch({ type: "cooldown_end" });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  const cooldownSeconds = cooldownUntil === null ? 0 : Math.max(0, Math.ceil((cooldownUntil - now) / 1000));
+  const coolingDown = cooldownSeconds > 0;
+  const isLoading = state.status === "loading";
+  const inputLocked = state.status === "awaiting-structured-input";
+
+  const submit = async (text: string, history: Message[], testId: number | null = null) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const startTime = Date.now();
+    setNow(startTime);
+    dispatch({ type: "send", text, history, id: state.id ?? crypto.randomUUID(), testId, now: startTime });
+
+    try {
+      const { data } = await postChat(
+        { sessionId: state.sessionId, message: text },
+        (structured) => dispatch({ type: "partial", structured }),
+        controller.signal
+      );
+      console.log("API Response:", JSON.stringify(data, null, 2));
+      if (!data.structured?.final_ui) {
+        console.warn("Parse error:", data.parseError);
+        console.log("Raw content:", data.rawContent);
+      }
+      dispatch({ type: "respond", data, history, text, loadTimeMs: Date.now() - startTime, now: Date.now() });
+    } catch (error) {
+      // Reset and unmount leave nothing to update
+      if (controller.signal.aborted) {
+        if (controller.signal.reason === "stop") dispatch({ type: "stop", history, text });
+        return;
+      }
+      console.error("Error:", error);
+      dispatch({ type: "fail", error, loadTimeMs: Date.now() - startTime, now: Date.now() });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  // Free text, or a test scenario's question; ignored while loading, cooling down or waiting for a clarifying answer
+  const send = (text: string, testId: number | null = null) => {
+    const message = text.trim();
+    if (!message || isLoading || inputLocked || coolingDown) return;
+    submit(message, state.messages, testId);
+  };
+
+  // Answer the open clarifying question with one of its options
+  const selectOption = (option: string) => {
+    if (isLoading || coolingDown) return;
+    submit(option, state.messages);
+  };
+
+  // Send the failed message again, replacing the error response
+  const retry = (index: number) => {
+    const failed = state.messages[index - 1];
+    if (!failed || failed.role !== "user" || isLoading || coolingDown) return;
+    submit(failed.content, state.messages.slice(0, index - 1), state.activeTestId);
+  };
+
+  const stop = () => {
+    abortRef.current?.abort("stop");
+  };
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort("reset");
+    dispatch({ type: "reset" });
+  }, []);
+
+  // Switch to a saved conversation, dropping any request in flight
+  const restore = useCallback((snapshot: ConversationSnapshot) => {
+    abortRef.current?.abort("reset");
+    dispatch({ type: "restore", snapshot });
+  }, []);
+
+  // Changes only when a turn settles or the conversation is switched, so it can drive saving
+  const { id, createdAt, updatedAt, sessionId, messages, status, latestUserQuestion, loadTimeMs, activeTestId } = state;
+  const snapshot = useMemo<ConversationSnapshot | null>(() => {
+    if (!id || createdAt === null || status === "loading" || messages.length === 0) return null;
+    return {
+      id,
+      createdAt,
+      updatedAt: updatedAt ?? createdAt,
+      sessionId,
+      messages,
+      status,
+      latestUserQuestion,
+      loadTimeMs,
+      activeTestId,
+    };
+  }, [id, createdAt, updatedAt, sessionId, messages, status, latestUserQuestion, loadTimeMs, activeTestId]);
+
+  return {
+    ...state,
+    isLoading,
+    inputLocked,
+    cooldownSeconds,
+    setInput: (input: string) => dispatch({ type: "edit", input }),
+    setLoadTime: (loadTimeMs: number) => dispatch({ type: "load_time", loadTimeMs }),
+    send,
+    selectOption,
+    retry,
+    stop,
+    returnToConversation: () => dispatch({ type: "resume" }),
+    reset,
+    restore,
+    snapshot,
+  };
+}
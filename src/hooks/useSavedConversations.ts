@@ -0,0 +1,80 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  deleteConversation,
+  getConversation,
+  listConversations,
+  renameConversation,
+  saveConversation,
+  ConversationSummary,
+  StoredConversation,
+} from "@/lib/conversationStorage";
+import type { ConversationSnapshot } from "./useRemedyConversation";
+
+// Storage can be missing (private browsing, old browsers); the chat still works without it
+function warnUnavailable(error: unknown): void {
+  console.warn("Conversation storage unavailable:", error);
+}
+
+/**
+ * Conversations saved in this browser, most recently updated first.
+ * Every change is written through to storage before the list is re-read.
+ */
+export function useSavedConversations() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  // Set once the first read has finished, so a restore can wait for it
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setConversations(await listConversations());
+    } catch (error) {
+      warnUnavailable(error);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const save = useCallback(async (snapshot: ConversationSnapshot) => {
+    try {
+      await saveConversation(snapshot);
+    } catch (error) {
+      warnUnavailable(error);
+    }
+    await refresh();
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    try {
+      await renameConversation(id, title);
+    } catch (error) {
+      warnUnavailable(error);
+    }
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteConversation(id);
+    } catch (error) {
+      warnUnavailable(error);
+    }
+    await refresh();
+  }, [refresh]);
+
+  const open = useCallback(async (id: string): Promise<StoredConversation | null> => {
+    try {
+      return await getConversation(id);
+    } catch (error) {
+      warnUnavailable(error);
+      return null;
+    }
+  }, []);
+
+  return { conversations, loaded, save, rename, remove, open };
+}
@@ -0,0 +1,41 @@
+/**
+ * Audit Log
+ *
+ * Every chat turn is recorded in an append-only JSONL file:
+ *
+ * - AUDIT_LOG_PATH: where records are written (default .cache/audit.jsonl)
+ * - AUDIT_HASH_SALT: mixed into the user-input hash so short messages can't be guessed back
+ *
+ * A failed write is logged and never fails the user's response.
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { createJsonlAuditLog } from "./jsonl";
+import { AuditLog, AuditRecord } from "./types";
+
+export * from "./types";
+export { DEFAULT_QUERY_LIMIT } from "./jsonl";
+
+const DEFAULT_LOG_PATH = ".cache/audit.jsonl";
+
+let log: AuditLog | null = null;
+
+export function getAuditLog(env: NodeJS.ProcessEnv = process.env): AuditLog {
+  log ??= createJsonlAuditLog(env.AUDIT_LOG_PATH || DEFAULT_LOG_PATH);
+  return log;
+}
+
+export function hashUserInput(message: string, env: NodeJS.ProcessEnv = process.env): string {
+  return createHash("sha256").update((env.AUDIT_HASH_SALT ?? "") + message).digest("hex");
+}
+
+/**
+ * Append a record for a finished turn, stamping its id and time.
+ */
+export async function recordAudit(record: Omit<AuditRecord, "id" | "timestamp">): Promise<void> {
+  try {
+    await getAuditLog().append({ id: randomUUID(), timestamp: new Date().toISOString(), ...record });
+  } catch (error) {
+    console.error("Audit record not written:", error);
+  }
+}
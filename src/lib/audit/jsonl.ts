@@ -0,0 +1,70 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AuditFilter, AuditLog, AuditRecord } from "./types";
+
+export const DEFAULT_QUERY_LIMIT = 100;
+
+export function matchesFilter(record: AuditRecord, filter: AuditFilter): boolean {
+  const time = Date.parse(record.timestamp);
+  if (filter.from && time < filter.from.getTime()) return false;
+  if (filter.to && time >= filter.to.getTime()) return false;
+  if (filter.uxMode && record.response?.ux_mode.mode !== filter.uxMode) return false;
+  if (filter.riskLevel && record.response?.intent_detection.risk_level !== filter.riskLevel) return false;
+  if (filter.rule) {
+    const rule = filter.rule.toLowerCase();
+    const rules = record.buildResult?.guardrails.applied_rules ?? [];
+    if (!rules.some((applied) => applied.toLowerCase().includes(rule))) return false;
+  }
+  return true;
+}
+
+/**
+ * One JSON record per line, only ever appended to. Appends are queued so
+ * concurrent turns in one process never interleave their lines. Queries read
+ * the whole file, which is fine at demo volumes; a busy deployment would
+ * ship these lines to a log store instead.
+ */
+export function createJsonlAuditLog(file: string): AuditLog {
+  const resolved = path.resolve(file);
+  let writes: Promise<void> = Promise.resolve();
+
+  return {
+    name: "jsonl",
+
+    append(record) {
+      writes = writes
+        .catch(() => undefined)
+        .then(async () => {
+          await fs.mkdir(path.dirname(resolved), { recursive: true });
+          await fs.appendFile(resolved, JSON.stringify(record) + "\n");
+        });
+      return writes;
+    },
+
+    async query(filter) {
+      let contents: string;
+      try {
+        contents = await fs.readFile(resolved, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+
+      const records: AuditRecord[] = [];
+      for (const line of contents.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // A torn final line from a crash mid-write; the rest is still readable
+          console.warn("Skipping unreadable audit record");
+        }
+      }
+
+      return records
+        .filter((record) => matchesFilter(record, filter))
+        .reverse()
+        .slice(0, filter.limit ?? DEFAULT_QUERY_LIMIT);
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Audit Log Types
+ *
+ * One record per chat turn, written after the response is assembled, so a
+ * clinical safety review can reconstruct what the user was shown and why.
+ * Records hold the user's input only as a hash, and model output as the
+ * provider returned it, with personal details still redacted.
+ */
+
+import type { AIResponse, BuildResult } from "../buildFinalUI";
+
+/**
+ * How the turn ended:
+ * - response: the model's answer, assembled by the rules engine
+ * - cached: an earlier response to the same first question, reused without calling the model
+ * - fallback: no attempt passed validation, so the fallback UI was shown
+ * - injection_blocked: the injection guard returned its fixed refusal
+ * - error: the provider failed; the fallback UI went out with the error
+ */
+export type AuditOutcome = "response" | "cached" | "fallback" | "injection_blocked" | "error";
+
+export interface AuditRecord {
+  id: string;
+  // ISO 8601
+  timestamp: string;
+  sessionId: string | null;
+  outcome: AuditOutcome;
+  promptVersion: string | null;
+  provider: string | null;
+  model: string | null;
+  // sha256 of the user's message (salted with AUDIT_HASH_SALT when set)
+  inputHash: string;
+  rawContent: string | null;
+  // Content and classification behind the UI, after the safety guards
+  response: AIResponse | null;
+  // The assembled UI, including every applied rule
+  buildResult: BuildResult | null;
+  // From the request arriving to the response being ready
+  latencyMs: number;
+}
+
+export interface AuditFilter {
+  from?: Date;
+  // Exclusive
+  to?: Date;
+  uxMode?: string;
+  riskLevel?: string;
+  // Case-insensitive substring of an applied_rules entry
+  rule?: string;
+  limit?: number;
+}
+
+export interface AuditLog {
+  name: string;
+  // Never rewrites or removes earlier records
+  append(record: AuditRecord): Promise<void>;
+  // Matching records, newest first
+  query(filter: AuditFilter): Promise<AuditRecord[]>;
+}
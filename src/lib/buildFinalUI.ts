@@ -3,8 +3,14 @@
  *
  * Takes AI response content and applies deterministic rules to build final UI.
  * This offloads component selection/ordering from the AI to reduce latency.
+ * The rules themselves are data, see rules/policy.ts.
  */
 
+import { validateAIResponse } from "./validateAIResponse";
+import { forceEmergency, RedFlagMatch } from "./redFlags";
+import { evaluateRules, CitationReport, UI_RULES, UIRule } from "./rules";
+import type { TrustTier, UNVERIFIED_TIER } from "./sourceAllowlist";
+
 // Types for AI response
 export interface IntentDetection {
   primary_intent: string;
@@ -46,6 +52,8 @@ export interface SourceContent {
   url: string;
   description?: string;
   image_url?: string;
+  // Set by the source allowlist, never by the model
+  trust_tier?: TrustTier | typeof UNVERIFIED_TIER;
   // Legacy support
   name?: string;
   note?: string;
@@ -93,187 +101,45 @@ export interface BuildResult {
     waiting_for_structured_input: boolean;
     returns_to_free_text: boolean;
   };
+  // How citation markers were matched to the rendered sources
+  citations: CitationReport;
 }
 
 /**
  * Build final UI from AI response using deterministic rules
  * @param response - The AI response containing intent, mode, and content
  * @param clarifyingCount - Number of clarifying questions already asked (for safety net)
+ * @param redFlag - Red flag detected in the user's message; forces emergency stacking
+ * @param rules - Ordered rule set, defaults to the product policy in rules/policy.ts
  */
-export function buildFinalUI(response: AIResponse, clarifyingCount: number = 0): BuildResult {
+export function buildFinalUI(
+  response: AIResponse,
+  clarifyingCount: number = 0,
+  redFlag: RedFlagMatch | null = null,
+  rules: UIRule[] = UI_RULES
+): BuildResult {
   const { intent_detection, ux_mode, response_content } = response;
-  const components: UIComponent[] = [];
-  const appliedRules: string[] = [];
-  const blockedComponents: string[] = [];
 
   // Determine guardrail flags
-  const isEmergency = ux_mode.mode === "emergency";
-  const isClarification = ux_mode.mode === "clarification";
+  // A red flag forces emergency stacking whatever mode the model chose
+  const isEmergency = ux_mode.mode === "emergency" || !!redFlag;
   const isTriage = intent_detection.primary_intent === "Triage (Urgent)";
-
-  // Safety net: If clarifying question limit exceeded, strip the clarifying question
-  const clarifyingLimitExceeded = clarifyingCount >= 2;
-  let hasClarifyingQuestion = !!response_content.clarifying_question;
-
-  if (hasClarifyingQuestion && clarifyingLimitExceeded) {
-    // Strip the clarifying question - limit exceeded
-    hasClarifyingQuestion = false;
-    appliedRules.push("Clarifying question stripped: limit exceeded (2/2)");
-  }
-
-  // Rule: Emergency mode suppresses non-essential UI
-  const suppressNonEssential = isEmergency;
-  if (suppressNonEssential) {
-    appliedRules.push("Emergency mode: suppressing non-essential UI");
-  }
-
-  // STACKING ORDER (based on mode and content):
-  // 1. safety_alert (if caution/emergency - goes first)
-  // 2. summary (NOT in emergency mode)
-  // 3. safety_alert (if informational - goes after summary)
-  // 4. clarifying_question (if present)
-  // 5. checklist (if present and not suppressed)
-  // 6. cta (if present - ALWAYS allowed in emergency mode)
-  // 7. sources (if present and not suppressed)
-  // 8. return_to_conversation (if clarifying question allows exit)
-
-  // 1. Safety alert (caution/emergency) - TOP POSITION
-  if (response_content.safety_alert) {
-    const alertLevel = response_content.safety_alert.level;
-    if (alertLevel === "caution" || alertLevel === "emergency") {
-      components.push({
-        type: "safety_alert",
-        content: response_content.safety_alert,
-      });
-      appliedRules.push(`Safety alert (${alertLevel}) placed at top`);
-    }
-  }
-
-  // 2. Summary (NOT in emergency mode)
-  if (response_content.summary && !isEmergency) {
-    components.push({
-      type: "summary",
-      content: response_content.summary,
-    });
-  } else if (response_content.summary && isEmergency) {
-    blockedComponents.push("summary");
-    appliedRules.push("Summary blocked: emergency mode");
-  }
-
-  // 3. Safety alert (informational) - AFTER SUMMARY
-  if (response_content.safety_alert) {
-    const alertLevel = response_content.safety_alert.level;
-    if (alertLevel === "informational") {
-      components.push({
-        type: "safety_alert",
-        content: response_content.safety_alert,
-      });
-      appliedRules.push("Informational alert placed below summary");
-    }
-  }
-
-  // 4. Clarifying question
-  if (hasClarifyingQuestion && !suppressNonEssential) {
-    components.push({
-      type: "clarifying_question",
-      content: response_content.clarifying_question,
-    });
-    appliedRules.push("Clarifying question included");
-  } else if (response_content.clarifying_question && suppressNonEssential) {
-    blockedComponents.push("clarifying_question");
-    appliedRules.push("Clarifying question suppressed (emergency mode)");
-  } else if (response_content.clarifying_question && clarifyingLimitExceeded) {
-    blockedComponents.push("clarifying_question");
-  }
-
-  // 5. Checklist (if not suppressed and no clarifying question)
-  if (response_content.checklist && !suppressNonEssential && !hasClarifyingQuestion) {
-    // Enforce 2-5 items limit
-    const items = response_content.checklist.items.slice(0, 5);
-    if (items.length >= 2) {
-      components.push({
-        type: "checklist",
-        content: {
-          ...response_content.checklist,
-          items,
-        },
-      });
-      appliedRules.push(`Checklist included (${items.length} items)`);
-    }
-  } else if (response_content.checklist && suppressNonEssential) {
-    blockedComponents.push("checklist");
-    appliedRules.push("Checklist suppressed (emergency mode)");
-  } else if (response_content.checklist && hasClarifyingQuestion) {
-    blockedComponents.push("checklist");
-    appliedRules.push("Checklist blocked: clarifying question present");
-  }
-
-  // 6. CTA - Apply rules
-  if (response_content.cta) {
-    // Rule: No CTA when clarifying question is present
-    if (hasClarifyingQuestion) {
-      blockedComponents.push("cta");
-      appliedRules.push("CTA blocked: clarifying question present");
-    }
-    // Rule: Emergency mode ALWAYS includes CTA (primary only, no secondary)
-    else if (isEmergency) {
-      const ctaContent: CTAContent = {
-        primary: response_content.cta.primary,
-      };
-      components.push({
-        type: "cta",
-        content: ctaContent,
-      });
-      appliedRules.push("CTA included: emergency mode (primary only)");
-    }
-    // Rule: Secondary CTA only allowed outside triage
-    else {
-      const ctaContent: CTAContent = {
-        primary: response_content.cta.primary,
-      };
-      if (response_content.cta.secondary && !isTriage) {
-        ctaContent.secondary = response_content.cta.secondary;
-        appliedRules.push("CTA included with secondary action");
-      } else if (response_content.cta.secondary && isTriage) {
-        appliedRules.push("Secondary CTA blocked: triage mode");
-      } else {
-        appliedRules.push("CTA included (primary only)");
-      }
-      components.push({
-        type: "cta",
-        content: ctaContent,
-      });
-    }
-  }
-
-  // 7. Sources (if not suppressed and no clarifying question)
-  if (response_content.sources && response_content.sources.length > 0 && !suppressNonEssential && !hasClarifyingQuestion) {
-    // Enforce 2-4 sources limit
-    const sources = response_content.sources.slice(0, 4);
-    if (sources.length >= 1) {
-      components.push({
-        type: "sources",
-        content: sources,
-      });
-      appliedRules.push(`Sources included (${sources.length})`);
-    }
-  } else if (response_content.sources && suppressNonEssential) {
-    blockedComponents.push("sources");
-    appliedRules.push("Sources suppressed (emergency mode)");
-  } else if (response_content.sources && hasClarifyingQuestion) {
-    blockedComponents.push("sources");
-    appliedRules.push("Sources blocked: clarifying question present");
-  }
-
-  // 8. Return to conversation - DISABLED for now
-  // TODO: Re-enable when we have a clear use case for this feature
-  // if (hasClarifyingQuestion && response_content.clarifying_question?.allows_exit && !suppressNonEssential) {
-  //   components.push({
-  //     type: "return_to_conversation",
-  //     content: null,
-  //   });
-  //   appliedRules.push("Return to conversation option included");
-  // }
+  const clarifyingLimitReached = clarifyingCount >= 2;
+  const hasClarifyingQuestion = !!response_content.clarifying_question && !clarifyingLimitReached;
+
+  const { components, blocked, applied, citations } = evaluateRules(
+    response_content,
+    {
+      mode: ux_mode.mode,
+      risk: intent_detection.risk_level,
+      intent: intent_detection.primary_intent,
+      emergency: isEmergency,
+      triage: isTriage,
+      clarifyingLimitReached,
+      redFlag,
+    },
+    rules
+  );
 
   // Build guardrails object
   const guardrails: Guardrails = {
@@ -282,19 +148,81 @@ export function buildFinalUI(response: AIResponse, clarifyingCount: number = 0):
     follow_up_questions_allowed: !isEmergency,
     escalation_required: isEmergency || intent_detection.risk_level === "high",
     allowed_components: components.map(c => c.type),
-    blocked_components: blockedComponents,
-    applied_rules: appliedRules,
+    blocked_components: blocked,
+    applied_rules: applied,
   };
 
   // Build exit state
   const exit_state = {
-    waiting_for_structured_input: hasClarifyingQuestion && !suppressNonEssential,
-    returns_to_free_text: !hasClarifyingQuestion || (hasClarifyingQuestion && !!response_content.clarifying_question?.allows_exit),
+    waiting_for_structured_input: hasClarifyingQuestion && !isEmergency,
+    returns_to_free_text: !hasClarifyingQuestion || !!response_content.clarifying_question?.allows_exit,
   };
 
   return {
     final_ui: { components },
     guardrails,
     exit_state,
+    citations,
+  };
+}
+
+export interface PartialBuildResult extends BuildResult {
+  // response_content fields the model has finished emitting
+  completed_fields: string[];
+  // Field currently being written, held back until it completes
+  pending_field: string | null;
+}
+
+/**
+ * Build UI from a response that is still streaming.
+ * JSON is emitted key by key, so every key of an unfinished object except the
+ * last one is final. Only finished response_content fields are validated and
+ * passed through buildFinalUI, so a component is never shown before its content is complete.
+ * @param partial - Output of parsePartialJson on the text streamed so far
+ * @param clarifyingCount - Number of clarifying questions already asked
+ * @param isComplete - True once the model has finished emitting
+ * @param redFlag - Red flag detected in the user's message
+ */
+export function buildPartialUI(
+  partial: unknown,
+  clarifyingCount: number = 0,
+  isComplete: boolean = false,
+  redFlag: RedFlagMatch | null = null
+): PartialBuildResult | null {
+  if (!partial || typeof partial !== "object") return null;
+  const response = partial as Partial<AIResponse>;
+
+  // Detection and mode drive stacking, so nothing renders until both are final
+  const topLevelKeys = Object.keys(response);
+  const finishedTopLevel = isComplete ? topLevelKeys : topLevelKeys.slice(0, -1);
+  if (!finishedTopLevel.includes("intent_detection") || !finishedTopLevel.includes("ux_mode")) {
+    return null;
+  }
+  if (!response.intent_detection || !response.ux_mode || !response.response_content) {
+    return null;
+  }
+
+  const contentKeys = Object.keys(response.response_content) as Array<keyof ResponseContent>;
+  const contentFinished = isComplete || finishedTopLevel.includes("response_content");
+  const completedFields = contentFinished ? contentKeys : contentKeys.slice(0, -1);
+  const pendingField = contentFinished ? null : contentKeys[contentKeys.length - 1] ?? null;
+
+  const completedContent: ResponseContent = {};
+  for (const key of completedFields) {
+    Object.assign(completedContent, { [key]: response.response_content[key] });
+  }
+
+  // Finished fields go through the same schema as the final response
+  const { response: validated } = validateAIResponse({
+    intent_detection: response.intent_detection,
+    ux_mode: response.ux_mode,
+    response_content: completedContent,
+  });
+  if (!validated) return null;
+
+  return {
+    ...buildFinalUI(redFlag ? forceEmergency(validated, redFlag) : validated, clarifyingCount, redFlag),
+    completed_fields: completedFields,
+    pending_field: pendingField,
   };
 }
@@ -0,0 +1,195 @@
+/**
+ * Case State
+ *
+ * Conversation history carries what the user said as prose, so a fact given
+ * as a clarifying answer ("Low energy", "For about a week") is easy for the
+ * model to lose or ask for again. The case state collects those facts into
+ * one structured record: rebuilt from the stored turns on every request,
+ * injected into the system prompt, and shown in the debug panel.
+ *
+ * Extraction is keyword-based, like the red-flag detector. It only ever adds
+ * or replaces facts the user stated; it never infers a diagnosis.
+ */
+
+import { quoteUserText } from "@/prompts/template";
+import type { SessionTurn } from "./sessions";
+
+export type AgeGroup = "infant" | "child" | "teen" | "adult" | "older adult";
+
+export interface ClarifyingAnswer {
+  question: string;
+  answer: string;
+}
+
+export interface CaseState {
+  age_group?: AgeGroup;
+  symptoms: string[];
+  // As the user phrased it, e.g. "for 3 days", "since yesterday"
+  duration?: string;
+  medications: string[];
+  pregnancy?: "pregnant" | "breastfeeding";
+  // Latest severity the user gave, e.g. "severe", "7/10"
+  severity?: string;
+  answers: ClarifyingAnswer[];
+}
+
+export const EMPTY_CASE_STATE: CaseState = { symptoms: [], medications: [], answers: [] };
+
+const SYMPTOMS: Array<{ label: string; pattern: RegExp }> = [
+  { label: "fatigue", pattern: /\b(?:tired|exhausted|fatigue|low energy|no energy|drained)\b/ },
+  { label: "dizziness", pattern: /\b(?:dizzy|dizziness|light-?headed|vertigo)\b/ },
+  { label: "headache", pattern: /\b(?:headaches?|migraines?)\b/ },
+  { label: "chest pain", pattern: /\bchest (?:pain|hurts|tightness|pressure)\b/ },
+  { label: "shortness of breath", pattern: /\b(?:short(?:ness)? of breath|breathless|can'?t breathe|trouble breathing)\b/ },
+  { label: "nausea", pattern: /\b(?:nause\w*|queasy|sick to my stomach)\b/ },
+  { label: "vomiting", pattern: /\b(?:vomit\w*|throwing up|threw up)\b/ },
+  { label: "diarrhea", pattern: /\bdiarrh?o?ea\b/ },
+  { label: "stomach pain", pattern: /\b(?:stomach|abdominal|belly) (?:pain|ache|cramps?)\b|\bstomach ?ache\b/ },
+  { label: "fever", pattern: /\b(?:fever|feverish|high temperature)\b/ },
+  { label: "cough", pattern: /\bcough\w*\b/ },
+  { label: "sore throat", pattern: /\bsore throat\b/ },
+  { label: "ear pain", pattern: /\b(?:ear ?ache|ear pain|ear infection)\b/ },
+  { label: "rash", pattern: /\b(?:rash|hives)\b/ },
+  { label: "back pain", pattern: /\bback (?:pain|ache)\b|\bbackache\b/ },
+  { label: "trouble sleeping", pattern: /\b(?:insomnia|can'?t sleep|trouble sleeping|not sleeping)\b/ },
+  { label: "low mood", pattern: /\b(?:low mood|depressed|feeling down|sad all the time)\b/ },
+  { label: "anxiety", pattern: /\b(?:anxious|anxiety|panic attacks?)\b/ },
+  { label: "high blood sugar", pattern: /\b(?:high blood sugar|blood sugar (?:has been |is )?(?:high|higher))\b/ },
+];
+
+const MEDICATIONS: Array<{ label: string; pattern: RegExp }> = [
+  { label: "ibuprofen", pattern: /\b(?:ibuprofen|advil|motrin)\b/ },
+  { label: "acetaminophen", pattern: /\b(?:acetaminophen|paracetamol|tylenol)\b/ },
+  { label: "naproxen", pattern: /\b(?:naproxen|aleve)\b/ },
+  { label: "aspirin", pattern: /\baspirin\b/ },
+  { label: "semaglutide (Ozempic)", pattern: /\b(?:ozempic|semaglutide|wegovy)\b/ },
+  { label: "metformin", pattern: /\bmetformin\b/ },
+  { label: "insulin", pattern: /\binsulin\b/ },
+  { label: "antibiotics", pattern: /\b(?:antibiotics?|amoxicillin)\b/ },
+  { label: "antihistamine", pattern: /\b(?:antihistamines?|benadryl|claritin|reactine)\b/ },
+  { label: "blood thinner", pattern: /\b(?:blood thinners?|warfarin|apixaban|eliquis)\b/ },
+  { label: "blood pressure medication", pattern: /\bblood pressure (?:meds|medication|medicine|pills?)\b/ },
+  { label: "antidepressant", pattern: /\b(?:antidepressants?|sertraline|zoloft|fluoxetine|prozac|ssris?)\b/ },
+  { label: "birth control", pattern: /\b(?:birth control|the pill|contraceptives?)\b/ },
+];
+
+const AGE_WORDS: Array<{ group: AgeGroup; pattern: RegExp }> = [
+  { group: "infant", pattern: /\b(?:my (?:baby|infant|newborn)|\d+[- ]month[- ]old)\b/ },
+  { group: "child", pattern: /\bmy (?:son|daughter|kid|child|toddler)\b/ },
+  { group: "teen", pattern: /\b(?:i'?m a teen(?:ager)?|my teen(?:ager)?)\b/ },
+  { group: "older adult", pattern: /\b(?:i'?m (?:a senior|elderly|retired)|in my (?:sixties|seventies|eighties|[6-9]0s))\b/ },
+];
+
+const DURATION = /\b(?:for (?:the (?:past|last) )?(?:\d+|a|an|one|two|three|four|five|a few|a couple(?: of)?|several) (?:hours?|days?|weeks?|months?|years?)|since (?:yesterday|last (?:night|week|month)|this (?:morning|week)|monday|tuesday|wednesday|thursday|friday|saturday|sunday)|(?:all|this) (?:day|week))\b/;
+
+const SEVERITY = /\b(?:mild|moderate|severe|unbearable|\d{1,2}\s?(?:\/|out of)\s?10)\b/;
+
+// "no fever", "not dizzy", "without nausea" mention a symptom without having it
+const NEGATION = /\b(?:no|not|never|without|denies)\s+(?:\w+\s+)?$/;
+
+function findMentions(text: string, vocabulary: Array<{ label: string; pattern: RegExp }>): string[] {
+  return vocabulary
+    .filter(({ pattern }) => {
+      const match = pattern.exec(text);
+      return match && !NEGATION.test(text.slice(Math.max(0, match.index - 20), match.index));
+    })
+    .map(({ label }) => label);
+}
+
+function ageGroupFromYears(years: number): AgeGroup {
+  if (years < 2) return "infant";
+  if (years < 13) return "child";
+  if (years < 18) return "teen";
+  if (years < 65) return "adult";
+  return "older adult";
+}
+
+function findAgeGroup(text: string): AgeGroup | undefined {
+  const years = text.match(/\b(\d{1,3})[- ]?(?:years?|yrs?)[- ]old\b|\bi'?m (\d{1,3})\b(?! ?(?:%|percent|hours|days|weeks|months|kg|lbs?|pounds|cm|feet|ft))/);
+  if (years) return ageGroupFromYears(Number(years[1] ?? years[2]));
+  return AGE_WORDS.find(({ pattern }) => pattern.test(text))?.group;
+}
+
+function merge(existing: string[], found: string[]): string[] {
+  return [...existing, ...found.filter((item) => !existing.includes(item))];
+}
+
+/**
+ * Fold one user message into the case state. Later statements replace
+ * earlier ones for single-valued facts (age, duration, severity).
+ * @param askedQuestion - Clarifying question the message answers, if any
+ */
+export function updateCaseState(state: CaseState, message: string, askedQuestion?: string): CaseState {
+  const text = message.toLowerCase().replace(/[‘’]/g, "'");
+  const next: CaseState = {
+    ...state,
+    symptoms: merge(state.symptoms, findMentions(text, SYMPTOMS)),
+    medications: merge(state.medications, findMentions(text, MEDICATIONS)),
+  };
+
+  next.age_group = findAgeGroup(text) ?? state.age_group;
+  next.duration = text.match(DURATION)?.[0] ?? state.duration;
+  next.severity = text.match(SEVERITY)?.[0] ?? state.severity;
+
+  if (/\bbreast ?feeding\b|\bnursing\b/.test(text)) {
+    next.pregnancy = "breastfeeding";
+  } else if (/\bpregnan(?:t|cy)\b/.test(text) && !/\bnot pregnant\b/.test(text)) {
+    next.pregnancy = "pregnant";
+  }
+
+  if (askedQuestion) {
+    next.answers = [...state.answers, { question: askedQuestion, answer: message.trim() }];
+  }
+
+  return next;
+}
+
+/**
+ * Rebuild the case state from a conversation, oldest turn first.
+ */
+export function buildCaseState(turns: SessionTurn[]): CaseState {
+  let state = EMPTY_CASE_STATE;
+  turns.forEach((turn, i) => {
+    if (turn.role !== "user") return;
+    const asked = turns[i - 1]?.structured?.response_content?.clarifying_question?.question;
+    state = updateCaseState(state, turn.content, asked);
+  });
+  return state;
+}
+
+export function isCaseStateEmpty(state: CaseState): boolean {
+  return (
+    !state.age_group &&
+    !state.duration &&
+    !state.pregnancy &&
+    !state.severity &&
+    state.symptoms.length === 0 &&
+    state.medications.length === 0 &&
+    state.answers.length === 0
+  );
+}
+
+/**
+ * Prompt block listing the known facts, or "" when nothing is known yet.
+ */
+export function formatCaseState(state: CaseState): string {
+  if (isCaseStateEmpty(state)) return "";
+
+  const facts = [
+    state.age_group && `- Age group: ${state.age_group}`,
+    state.symptoms.length > 0 && `- Symptoms: ${state.symptoms.join(", ")}`,
+    state.duration && `- Duration: ${state.duration}`,
+    state.severity && `- Severity: ${state.severity}`,
+    state.medications.length > 0 && `- Medications mentioned: ${state.medications.join(", ")}`,
+    state.pregnancy && `- Pregnancy/breastfeeding: ${state.pregnancy}`,
+    // Answers are free text from the user, so they are quoted like any other user content
+    ...state.answers.map(({ question, answer }) => `- Answered ${quoteUserText(question)}: ${quoteUserText(answer)}`),
+  ].filter(Boolean);
+
+  return `
+
+## CASE STATE
+Facts the user has already given in this conversation. Keep your answer consistent with them and do NOT ask for any of them again.
+${facts.join("\n")}
+`;
+}
@@ -0,0 +1,104 @@
+/**
+ * Chat Error Taxonomy
+ *
+ * Every failure of /api/chat is reported as one of a fixed set of codes, so
+ * clients switch on the code instead of parsing messages. Messages are ours,
+ * written for the user; upstream error text is logged on the server, never
+ * passed through.
+ *
+ * Error bodies still carry a renderable `structured` UI (the fallback or the
+ * injection refusal), so a client that ignores the code stays safe.
+ */
+
+import { ProviderError } from "./llm";
+import { UnknownPromptError } from "@/prompts/registry";
+
+export type ChatErrorCode =
+  | "validation"
+  | "rate_limited"
+  | "upstream_timeout"
+  | "upstream_rate_limited"
+  | "upstream_error"
+  | "parse_failure"
+  | "policy_blocked"
+  | "internal";
+
+export const ERROR_STATUS: Record<ChatErrorCode, number> = {
+  validation: 400,
+  rate_limited: 429,
+  upstream_timeout: 504,
+  upstream_rate_limited: 429,
+  upstream_error: 502,
+  parse_failure: 502,
+  policy_blocked: 422,
+  internal: 500,
+};
+
+const DEFAULT_MESSAGES: Record<ChatErrorCode, string> = {
+  validation: "Invalid request",
+  rate_limited: "Too many requests",
+  upstream_timeout: "The model provider took too long to respond",
+  upstream_rate_limited: "The model provider is rate limiting requests",
+  upstream_error: "The model provider returned an error",
+  parse_failure: "No attempt produced a valid response",
+  policy_blocked: "The message was blocked by the content policy",
+  internal: "Internal server error",
+};
+
+// Worth sending the same message again
+const RETRYABLE: ChatErrorCode[] = ["rate_limited", "upstream_timeout", "upstream_rate_limited", "upstream_error", "parse_failure", "internal"];
+
+export interface ChatErrorBody {
+  code: ChatErrorCode;
+  message: string;
+  retryable: boolean;
+  // One entry per problem, for validation errors
+  details?: string[];
+  // Seconds to wait before retrying, for rate limits
+  retryAfter?: number;
+}
+
+export class ChatError extends Error {
+  code: ChatErrorCode;
+  status: number;
+  details?: string[];
+  retryAfter?: number;
+
+  constructor(
+    code: ChatErrorCode,
+    message: string = DEFAULT_MESSAGES[code],
+    options: { details?: string[]; retryAfter?: number } = {}
+  ) {
+    super(message);
+    this.name = "ChatError";
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = options.details;
+    this.retryAfter = options.retryAfter;
+  }
+
+  toBody(): ChatErrorBody {
+    return {
+      code: this.code,
+      message: this.message,
+      retryable: RETRYABLE.includes(this.code),
+      ...(this.details && { details: this.details }),
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+    };
+  }
+}
+
+/**
+ * Classify anything thrown while handling a chat request.
+ */
+export function toChatError(error: unknown): ChatError {
+  if (error instanceof ChatError) return error;
+  if (error instanceof UnknownPromptError) return new ChatError("validation", error.message);
+  if (error instanceof ProviderError) {
+    if (error.status === 429) return new ChatError("upstream_rate_limited");
+    if (error.status === 408 || error.status === 504) return new ChatError("upstream_timeout");
+    return new ChatError("upstream_error");
+  }
+  if (error instanceof Error && error.name === "TimeoutError") return new ChatError("upstream_timeout");
+  return new ChatError("internal");
+}
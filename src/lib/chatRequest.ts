@@ -0,0 +1,71 @@
+/**
+ * Chat Request Validation
+ *
+ * The body of POST /api/chat is checked field by field before anything else
+ * runs. History lives in the server-side session, so the only accepted
+ * fields are the new message, the session id and the stream flag; anything
+ * else (such as a client-supplied `messages` array with its own roles) is
+ * rejected rather than silently ignored.
+ */
+
+import { ChatError } from "./chatErrors";
+
+export interface ChatRequest {
+  // Omit (or send an unknown id) to start a new conversation
+  sessionId?: string;
+  message: string;
+  // Stream NDJSON events instead of a single JSON body
+  stream?: boolean;
+}
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+// Stored turns (user and assistant) before a conversation must start over
+export const MAX_SESSION_TURNS = 100;
+
+const MAX_SESSION_ID_LENGTH = 128;
+
+const FIELDS = ["sessionId", "message", "stream"];
+
+/**
+ * Check a parsed request body.
+ * @throws ChatError("validation") listing every problem found
+ */
+export function parseChatRequest(body: unknown): ChatRequest {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ChatError("validation", "Request body must be a JSON object");
+  }
+
+  const { sessionId, message, stream } = body as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const key of Object.keys(body)) {
+    if (!FIELDS.includes(key)) issues.push(`Unknown field "${key}"`);
+  }
+
+  if (typeof message !== "string") {
+    issues.push("message must be a string");
+  } else if (!message.trim()) {
+    issues.push("message must not be empty");
+  } else if (message.length > MAX_MESSAGE_LENGTH) {
+    issues.push(`message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+
+  if (sessionId !== undefined && sessionId !== null) {
+    if (typeof sessionId !== "string" || sessionId.length > MAX_SESSION_ID_LENGTH) {
+      issues.push(`sessionId must be a string of at most ${MAX_SESSION_ID_LENGTH} characters`);
+    }
+  }
+
+  if (stream !== undefined && typeof stream !== "boolean") {
+    issues.push("stream must be a boolean");
+  }
+
+  if (issues.length > 0) throw new ChatError("validation", issues[0], { details: issues });
+
+  return {
+    message: message as string,
+    ...(typeof sessionId === "string" && { sessionId }),
+    ...(stream !== undefined && { stream: stream as boolean }),
+  };
+}
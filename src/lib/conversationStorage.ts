@@ -0,0 +1,133 @@
+/**
+ * Conversation Storage
+ *
+ * Conversations are kept in the browser's IndexedDB so a reload picks up
+ * where the user left off. Browser only: call from effects and event handlers.
+ *
+ * The database version is the schema version. When StoredConversation
+ * changes shape, bump SCHEMA_VERSION and add a step to `upgrade` that
+ * migrates the records written by the previous version.
+ */
+
+import type { ConversationSnapshot } from "@/hooks/useRemedyConversation";
+
+const DB_NAME = "remedy";
+const STORE = "conversations";
+export const SCHEMA_VERSION = 1;
+
+// Longest default title, taken from the first message
+const TITLE_LENGTH = 60;
+
+export interface StoredConversation extends ConversationSnapshot {
+  // The first message until the user renames it
+  title: string;
+}
+
+// What the conversation list shows
+export type ConversationSummary = Pick<StoredConversation, "id" | "title" | "createdAt" | "updatedAt">;
+
+function upgrade(db: IDBDatabase, oldVersion: number): void {
+  if (oldVersion < 1) {
+    const store = db.createObjectStore(STORE, { keyPath: "id" });
+    store.createIndex("updatedAt", "updatedAt");
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Step aside when a newer schema opens in another tab
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Let the next call try again, e.g. after another tab finished an upgrade
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+/**
+ * Run work in a single transaction. Resolves with what the work returns once
+ * the transaction has committed, so a write is durable when the promise settles.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => () => T
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const result = work(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(result());
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function defaultTitle(snapshot: ConversationSnapshot): string {
+  const first = snapshot.messages.find((m) => m.role === "user")?.content.trim() || "New conversation";
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : first;
+}
+
+/**
+ * Most recently updated first.
+ */
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const records = await withStore("readonly", (store) => {
+    const request = store.index("updatedAt").getAll();
+    return () => request.result as StoredConversation[];
+  });
+  return records
+    .reverse()
+    .map(({ id, title, createdAt, updatedAt }) => ({ id, title, createdAt, updatedAt }));
+}
+
+export async function getConversation(id: string): Promise<StoredConversation | null> {
+  return withStore("readonly", (store) => {
+    const request = store.get(id);
+    return () => (request.result as StoredConversation | undefined) ?? null;
+  });
+}
+
+/**
+ * Write the current state of a conversation, keeping the title it was given.
+ */
+export async function saveConversation(snapshot: ConversationSnapshot): Promise<void> {
+  await withStore("readwrite", (store) => {
+    const existing = store.get(snapshot.id);
+    existing.onsuccess = () => {
+      const previous = existing.result as StoredConversation | undefined;
+      store.put({ ...snapshot, title: previous?.title ?? defaultTitle(snapshot) });
+    };
+    return () => undefined;
+  });
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  await withStore("readwrite", (store) => {
+    const existing = store.get(id);
+    existing.onsuccess = () => {
+      const previous = existing.result as StoredConversation | undefined;
+      if (previous) store.put({ ...previous, title });
+    };
+    return () => undefined;
+  });
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await withStore("readwrite", (store) => {
+    store.delete(id);
+    return () => undefined;
+  });
+}
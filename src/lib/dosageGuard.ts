@@ -0,0 +1,170 @@
+/**
+ * Dosage Content Guard
+ *
+ * The prompt tells the model never to give dosage information; this enforces
+ * it. Runs on the parsed response before buildFinalUI and scans the text the
+ * user reads (summary, checklist items, safety alert message) for doses,
+ * frequencies, durations and quantities.
+ *
+ * Policies:
+ * - redact: replace each match with a placeholder
+ * - rewrite: replace the whole sentence or item with a "speak to a pharmacist" line
+ * - regenerate: send the hits back to the model as a correction turn, then
+ *   rewrite anything that is still there after the last attempt
+ */
+
+import type { AIResponse } from "./buildFinalUI";
+
+export type DosagePolicy = "redact" | "rewrite" | "regenerate";
+
+export const DEFAULT_DOSAGE_POLICY: DosagePolicy = "rewrite";
+
+export type DosageHitKind = "dose" | "frequency" | "duration" | "quantity";
+
+export interface DosageHit {
+  // response_content path, e.g. "checklist.items[2]"
+  path: string;
+  kind: DosageHitKind;
+  match: string;
+}
+
+export interface DosageGuardResult {
+  response: AIResponse;
+  hits: DosageHit[];
+  // One applied_rules entry per hit
+  applied: string[];
+}
+
+const QUANTITY_UNITS = "tablets?|pills?|capsules?|caplets?|drops?|puffs?|sprays?|teaspoons?|tsp|tablespoons?|tbsp|doses?";
+
+const PATTERNS: Array<{ kind: DosageHitKind; pattern: RegExp }> = [
+  { kind: "dose", pattern: /\b\d+(?:[.,]\d+)?\s?(?:mg|mcg|µg|ml|iu|units?|milligrams?|micrograms?|millilit(?:er|re)s?)\b/gi },
+  { kind: "frequency", pattern: /\bevery \d+(?:\s?(?:-|to)\s?\d+)? hours?\b/gi },
+  { kind: "frequency", pattern: /\b(?:once|twice|three times|four times|\d+ times) (?:a|per) day\b|\b(?:once|twice) daily\b/gi },
+  { kind: "quantity", pattern: new RegExp(`\\b(?:\\d+|one|two|three|four|half an?)\\s(?:${QUANTITY_UNITS})\\b`, "gi") },
+];
+
+// "for 7 days" is only a dosing instruction next to taking or using something,
+// not in "if a fever lasts for 3 days"
+const DURATION = /\bfor \d+(?:\s?(?:-|to)\s?\d+)? (?:days?|weeks?)\b/gi;
+const DURATION_CONTEXT = /\b(?:take|taking|use|using|apply|applying|course)\b/i;
+
+const PHARMACIST_LINE = "Speak to a pharmacist about the right dose for you.";
+const PHARMACIST_ITEM = "Ask a pharmacist about the right dose for you";
+const REDACTED = "[dose removed]";
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [text];
+}
+
+function findHits(text: string, path: string): DosageHit[] {
+  const hits: DosageHit[] = [];
+  for (const { kind, pattern } of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      hits.push({ path, kind, match: match[0] });
+    }
+  }
+  for (const sentence of splitSentences(text)) {
+    if (!DURATION_CONTEXT.test(sentence)) continue;
+    for (const match of sentence.matchAll(DURATION)) {
+      hits.push({ path, kind: "duration", match: match[0] });
+    }
+  }
+  return hits;
+}
+
+function redact(text: string, hits: DosageHit[]): string {
+  return hits.reduce((result, hit) => result.split(hit.match).join(REDACTED), text);
+}
+
+// Replace offending sentences, collapsing consecutive replacements into one line
+function rewrite(text: string, path: string): string {
+  const sentences = splitSentences(text);
+  const rewritten: string[] = [];
+  for (const sentence of sentences) {
+    if (findHits(sentence, path).length === 0) {
+      rewritten.push(sentence.trim());
+    } else if (rewritten[rewritten.length - 1] !== PHARMACIST_LINE) {
+      rewritten.push(PHARMACIST_LINE);
+    }
+  }
+  return rewritten.join(" ");
+}
+
+/**
+ * List dosage hits in the user-facing text of a response.
+ */
+export function scanDosage(response: AIResponse): DosageHit[] {
+  const content = response.response_content;
+  const hits: DosageHit[] = [];
+
+  if (typeof content.summary === "string") {
+    hits.push(...findHits(content.summary, "summary"));
+  }
+  if (Array.isArray(content.checklist?.items)) {
+    content.checklist.items.forEach((item, i) => {
+      if (typeof item === "string") hits.push(...findHits(item, `checklist.items[${i}]`));
+    });
+  }
+  if (typeof content.safety_alert?.message === "string") {
+    hits.push(...findHits(content.safety_alert.message, "safety_alert.message"));
+  }
+
+  return hits;
+}
+
+/**
+ * Remove dosage content from a response. The regenerate policy rewrites here,
+ * since by the time this runs the model has had its chance to fix the output.
+ * Only string fields are touched, so it is also safe on a partially streamed response.
+ */
+export function applyDosageGuard(response: AIResponse, policy: DosagePolicy = DEFAULT_DOSAGE_POLICY): DosageGuardResult {
+  const hits = scanDosage(response);
+  if (hits.length === 0) return { response, hits, applied: [] };
+
+  const content = response.response_content;
+  const action = policy === "redact" ? "redacted" : "rewritten";
+  const clean = (text: string, path: string) => {
+    const pathHits = hits.filter((hit) => hit.path === path);
+    if (pathHits.length === 0) return text;
+    return policy === "redact" ? redact(text, pathHits) : rewrite(text, path);
+  };
+
+  const guarded = { ...content };
+  if (typeof content.summary === "string") {
+    guarded.summary = clean(content.summary, "summary");
+  }
+  if (content.checklist && Array.isArray(content.checklist.items)) {
+    const items = content.checklist.items.map((item, i) => {
+      const path = `checklist.items[${i}]`;
+      if (policy !== "redact" && hits.some((hit) => hit.path === path)) return PHARMACIST_ITEM;
+      return clean(item, path);
+    });
+    // Several rewritten items would all say the same thing
+    guarded.checklist = {
+      ...content.checklist,
+      items: items.filter((item, i) => item !== PHARMACIST_ITEM || items.indexOf(item) === i),
+    };
+  }
+  if (content.safety_alert && typeof content.safety_alert.message === "string") {
+    guarded.safety_alert = {
+      ...content.safety_alert,
+      message: clean(content.safety_alert.message, "safety_alert.message"),
+    };
+  }
+
+  return {
+    response: { ...response, response_content: guarded },
+    hits,
+    applied: hits.map((hit) => `Dosage guard: ${hit.kind} "${hit.match}" ${action} in ${hit.path}`),
+  };
+}
+
+/**
+ * Describe hits as problems for a regenerate correction turn.
+ */
+export function describeDosageHits(hits: DosageHit[]): string[] {
+  return hits.map(
+    (hit) => `${hit.path} contains dosage information ("${hit.match}"). Never give doses, frequencies, durations or quantities; tell the user to speak to a pharmacist instead.`
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Deterministic Fallback UI
+ *
+ * Used when the pipeline cannot produce a response (provider error, output
+ * that fails validation after every retry). Builds a safe response locally,
+ * without the model, and runs it through buildFinalUI so the frontend always
+ * receives a renderable final_ui. The red-flag detector decides between an
+ * emergency alert and a gentle "contact a provider" note.
+ */
+
+import { AIResponse, buildFinalUI } from "./buildFinalUI";
+import { detectRedFlags, forceEmergency } from "./redFlags";
+
+const UNAVAILABLE_RESPONSE: AIResponse = {
+  intent_detection: {
+    primary_intent: "Explain",
+    secondary_intents: [],
+    risk_level: "low",
+    reasoning: "Fallback: assistant unavailable",
+  },
+  ux_mode: { mode: "informational", reason: "Assistant unavailable" },
+  response_content: {
+    safety_alert: {
+      level: "informational",
+      message: "Sorry, I couldn't put together an answer right now. Please try again, and if you're worried about your health, contact a healthcare provider.",
+    },
+    cta: { primary: "Contact a provider" },
+  },
+};
+
+export function buildFallbackResponse(userMessage: string, reason: string) {
+  const redFlag = detectRedFlags(userMessage)[0] ?? null;
+  const response = redFlag ? forceEmergency(UNAVAILABLE_RESPONSE, redFlag) : UNAVAILABLE_RESPONSE;
+
+  const buildResult = buildFinalUI(response, 0, redFlag);
+  buildResult.guardrails.applied_rules.unshift(`Fallback UI: ${reason}`);
+
+  return {
+    ...response,
+    ...buildResult,
+    fallback: { reason },
+  };
+}
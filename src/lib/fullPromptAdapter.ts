@@ -0,0 +1,130 @@
+/**
+ * Full Prompt Adapter
+ *
+ * The full assembly prompt answers in its own 9-section shape: content in
+ * structured_response, sources as {name, url, note}, and the model's own
+ * final_ui and stacking decisions. The route only understands the lite
+ * shape, so this maps the content across before validation, then turns the
+ * model's assembly into a BuildResult that can be compared with what the
+ * rules engine built from the same content.
+ */
+
+import type { BuildResult, UIComponent } from "./buildFinalUI";
+import { lookupTrustedDomain } from "./sourceAllowlist";
+
+type Obj = Record<string, unknown>;
+
+function isObject(value: unknown): value is Obj {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function siteName(url: unknown): string | undefined {
+  if (typeof url !== "string") return undefined;
+  const trusted = lookupTrustedDomain(url);
+  if (trusted) return trusted.site_name;
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Map full-prompt output onto the lite AIResponse shape. Only the fields the
+ * lite schema knows are kept, so validation sees no unknown sections.
+ * Anything that is not yet shaped like full output (e.g. early in a stream)
+ * passes through unchanged.
+ */
+export function adaptFullPromptOutput(raw: unknown): unknown {
+  if (!isObject(raw) || !("structured_response" in raw)) return raw;
+
+  const content = isObject(raw.structured_response) ? { ...raw.structured_response } : {};
+  if (Array.isArray(content.sources)) {
+    content.sources = content.sources.map((source) => {
+      if (!isObject(source)) return source;
+      const { name, note, ...rest } = source;
+      return {
+        ...rest,
+        title: rest.title ?? name,
+        site_name: rest.site_name ?? siteName(rest.url),
+        ...(note !== undefined && rest.description === undefined && { description: note }),
+      };
+    });
+  }
+
+  return {
+    intent_detection: raw.intent_detection,
+    ux_mode: raw.ux_mode,
+    response_content: content,
+  };
+}
+
+/**
+ * The model's own UI assembly as a BuildResult, or null if the output has no
+ * usable final_ui. Nothing here is rendered; it exists to be compared.
+ */
+export function buildModelAssembly(raw: unknown): BuildResult | null {
+  if (!isObject(raw) || !isObject(raw.final_ui) || !Array.isArray(raw.final_ui.components)) return null;
+
+  const components = raw.final_ui.components.filter(
+    (c): c is UIComponent => isObject(c) && typeof c.type === "string"
+  );
+  const guardrails = isObject(raw.guardrails) ? raw.guardrails : {};
+  const stacking = isObject(raw.stacking_and_limits) ? raw.stacking_and_limits : {};
+  const exitState = isObject(raw.exit_state) ? raw.exit_state : {};
+  const readStrings = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : []);
+
+  return {
+    final_ui: { components },
+    guardrails: {
+      triage_required: guardrails.triage_required === true,
+      free_text_allowed: guardrails.free_text_allowed !== false,
+      follow_up_questions_allowed: guardrails.follow_up_questions_allowed !== false,
+      escalation_required: guardrails.escalation_required === true,
+      allowed_components: readStrings(guardrails.allowed_components),
+      blocked_components: [...new Set([...readStrings(guardrails.blocked_components), ...readStrings(stacking.suppressed_components)])],
+      applied_rules: typeof stacking.notes === "string" && stacking.notes ? [stacking.notes] : [],
+    },
+    exit_state: {
+      waiting_for_structured_input: exitState.waiting_for_structured_input === true,
+      returns_to_free_text: exitState.returns_to_free_text !== false,
+    },
+    citations: { renumbered: [], stripped: [], uncited: [] },
+  };
+}
+
+export interface AssemblyComparison {
+  matches: boolean;
+  // Component types in render order
+  model: string[];
+  rules: string[];
+  // Components only one side rendered
+  modelOnly: string[];
+  rulesOnly: string[];
+  sameOrder: boolean;
+  sameExitState: boolean;
+}
+
+/**
+ * Compare the model's assembly with the rules engine's for the same content.
+ */
+export function compareAssemblies(model: BuildResult, rules: BuildResult): AssemblyComparison {
+  const modelTypes = model.final_ui.components.map((c) => c.type);
+  const rulesTypes = rules.final_ui.components.map((c) => c.type);
+  const modelOnly = modelTypes.filter((type) => !rulesTypes.includes(type));
+  const rulesOnly = rulesTypes.filter((type) => !modelTypes.includes(type));
+  const sameOrder = modelTypes.join(",") === rulesTypes.join(",");
+  const sameExitState =
+    model.exit_state.waiting_for_structured_input === rules.exit_state.waiting_for_structured_input &&
+    model.exit_state.returns_to_free_text === rules.exit_state.returns_to_free_text;
+
+  return {
+    matches: sameOrder && sameExitState,
+    model: modelTypes,
+    rules: rulesTypes,
+    modelOnly,
+    rulesOnly,
+    sameOrder,
+    sameExitState,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { estimateUsage, generateAIResponse } from "./generateAIResponse";
+import { CompletionRequest, CompletionResult, LLMProvider, TokenUsage } from "./llm";
+import { checkTokenBudget, DEFAULT_RATE_LIMITS, recordTokenUsage } from "./rateLimit";
+
+const MESSAGES = [
+  { role: "system" as const, content: "Answer as JSON." },
+  { role: "user" as const, content: "I have a headache" },
+];
+
+const USAGE: TokenUsage = { prompt_tokens: 60, completion_tokens: 40, total_tokens: 100 };
+
+// Answers from the list in order; an Error in the list is thrown instead
+function scriptedProvider(steps: (CompletionResult | Error)[]): LLMProvider {
+  const complete = async ({ signal }: CompletionRequest) => {
+    signal?.throwIfAborted();
+    const step = steps.shift();
+    if (!step || step instanceof Error) throw step ?? new Error("No more steps");
+    return step;
+  };
+  return {
+    name: "fake",
+    model: "scripted",
+    complete,
+    stream: async function* () {
+      throw new Error("Not used");
+    },
+  };
+}
+
+// Runs a generation that is expected to throw, returning what onUsage reported
+async function spentOnFailure(options: Omit<Parameters<typeof generateAIResponse>[0], "messages" | "maxTokens">) {
+  let tokens = 0;
+  await expect(generateAIResponse({
+    messages: MESSAGES,
+    maxTokens: 100,
+    onUsage: (usage) => {
+      tokens += usage.total_tokens;
+    },
+    ...options,
+  })).rejects.toThrow();
+  return tokens;
+}
+
+describe("generateAIResponse usage", () => {
+  it("reports earlier attempts and the failed one when a retry times out", async () => {
+    const provider = scriptedProvider([
+      { content: "not json", finishReason: "stop", model: "scripted", usage: USAGE },
+      new DOMException("The operation timed out", "TimeoutError"),
+    ]);
+    const tokens = await spentOnFailure({ primary: provider });
+
+    // The retry's prompt holds the original messages plus the bad answer and the correction
+    expect(tokens).toBeGreaterThan(USAGE.total_tokens + estimateUsage(MESSAGES).total_tokens);
+  });
+
+  it("charges a stopped turn against the daily budgets", async () => {
+    const controller = new AbortController();
+    const provider = scriptedProvider([]);
+    const stopped = async (request: CompletionRequest): Promise<CompletionResult> => {
+      controller.abort();
+      return provider.complete(request);
+    };
+    const tokens = await spentOnFailure({ primary: provider, firstAttempt: stopped, signal: controller.signal });
+    expect(tokens).toBe(estimateUsage(MESSAGES).total_tokens);
+
+    const owner = { sessionId: "stopped", ip: "198.51.100.9" };
+    const config = { ...DEFAULT_RATE_LIMITS, dailyTokenBudget: tokens };
+    expect(await checkTokenBudget(owner, config)).toBeNull();
+    await recordTokenUsage(owner, tokens, config);
+    expect(await checkTokenBudget(owner, config)).toMatchObject({ scope: "daily_tokens" });
+  });
+});
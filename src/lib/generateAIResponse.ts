@@ -0,0 +1,212 @@
+/**
+ * AIResponse Generation with Repair and Retry
+ *
+ * Calls the model, parses and validates its output, and when that fails sends
+ * the error back as a correction turn. After the primary model has failed
+ * `fallbackAfter` times, remaining attempts go to the fallback provider.
+ * Every attempt is recorded so first-response failure rates can be measured.
+ */
+
+import type { AIResponse } from "./buildFinalUI";
+import { estimateTokens } from "./historyCompaction";
+import { ChatMessage, CompletionRequest, CompletionResult, LLMProvider, TokenUsage } from "./llm";
+import { validateAIResponse, ValidationResult } from "./validateAIResponse";
+
+export interface RetryPolicy {
+  // Total attempts, including the first
+  maxAttempts: number;
+  // Attempts on the primary provider before switching to the fallback
+  fallbackAfter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  fallbackAfter: 2,
+};
+
+export interface GenerationAttempt {
+  attempt: number;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  finishReason: string;
+  usage?: TokenUsage;
+  outcome: "success" | "parse_error" | "validation_error" | "policy_violation";
+  error?: string;
+}
+
+export interface GenerationResult {
+  // Completion from the last attempt
+  completion: CompletionResult;
+  parseError: string | null;
+  validation: ValidationResult | null;
+  attempts: GenerationAttempt[];
+  // Summed across all attempts
+  usage: TokenUsage;
+}
+
+export interface GenerateOptions {
+  messages: ChatMessage[];
+  maxTokens: number;
+  primary: LLMProvider;
+  fallback?: LLMProvider | null;
+  policy?: RetryPolicy;
+  // Replaces primary.complete for the first attempt (used to stream it)
+  firstAttempt?: (request: CompletionRequest) => Promise<CompletionResult>;
+  // Called before each retry, e.g. to discard partially streamed UI
+  onRetry?: (failed: GenerationAttempt) => void;
+  // Content policy checks on a schema-valid response; any problems trigger a retry
+  check?: (response: AIResponse) => string[];
+  // Maps parsed output in another prompt's shape onto AIResponse before validation
+  adapt?: (parsed: unknown) => unknown;
+  // Stops the loop and the in-flight request; the signal's reason is thrown
+  signal?: AbortSignal;
+  // Called with each attempt's usage as it is spent, including an attempt that
+  // throws, so the caller can charge a turn that never returns a result
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Parse the model's raw content as JSON.
+ * Tries a direct parse, then a fenced code block, then the outermost {...} match.
+ * The result is untyped until it passes validateAIResponse.
+ */
+export function parseModelContent(rawContent: string): { parsedResponse: unknown; parseError: string | null } {
+  let parsedResponse: unknown = null;
+  let parseError = null;
+
+  try {
+    // Try direct JSON parse first
+    parsedResponse = JSON.parse(rawContent);
+  } catch {
+    // If that fails, try to extract JSON from markdown code blocks
+    const jsonMatch = rawContent.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      try {
+        parsedResponse = JSON.parse(jsonMatch[1].trim());
+      } catch (e) {
+        parseError = `Failed to parse JSON from code block: ${e}`;
+      }
+    } else {
+      // Try to find JSON object in the response
+      const jsonObjectMatch = rawContent.match(/\{[\s\S]*\}/);
+      if (jsonObjectMatch) {
+        try {
+          parsedResponse = JSON.parse(jsonObjectMatch[0]);
+        } catch (e) {
+          parseError = `Failed to parse extracted JSON: ${e}`;
+        }
+      } else {
+        parseError = "No valid JSON found in response";
+      }
+    }
+  }
+
+  return { parsedResponse, parseError };
+}
+
+// Correction turn sent back to the model after a failed attempt
+function buildCorrectionMessage(
+  parseError: string | null,
+  validation: ValidationResult | null,
+  violations: string[]
+): string {
+  const problems = parseError
+    ? [parseError]
+    : violations.length > 0
+      ? violations
+      : (validation?.issues || [])
+          .filter((issue) => !issue.repaired)
+          .map((issue) => `${issue.path || "(root)"}: ${issue.message}`);
+
+  return `Your previous response could not be used:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+Return the complete response again as a single valid JSON object matching the OUTPUT STRUCTURE. Output only JSON.`;
+}
+
+/**
+ * Usage for a call the provider didn't report on: 4 characters per token over
+ * the prompt it was sent and whatever content came back.
+ */
+export function estimateUsage(messages: ChatMessage[], content: string = ""): TokenUsage {
+  const promptTokens = estimateTokens(messages.map((m) => m.content).join(""));
+  const completionTokens = estimateTokens(content);
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+}
+
+function addUsage(total: TokenUsage, usage?: TokenUsage): TokenUsage {
+  if (!usage) return total;
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  };
+}
+
+export async function generateAIResponse(options: GenerateOptions): Promise<GenerationResult> {
+  const { messages, maxTokens, primary, fallback, firstAttempt, onRetry, check, adapt, signal, onUsage } = options;
+  const policy = options.policy || DEFAULT_RETRY_POLICY;
+  const attempts: GenerationAttempt[] = [];
+  let usage: TokenUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let request: CompletionRequest = { messages, maxTokens, signal };
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    const provider = attempt > policy.fallbackAfter && fallback ? fallback : primary;
+    const startTime = Date.now();
+    let completion: CompletionResult;
+    try {
+      completion = attempt === 1 && firstAttempt
+        ? await firstAttempt(request)
+        : await provider.complete(request);
+    } catch (error) {
+      // Stopped, timed out or failed upstream after the prompt was sent
+      onUsage?.(estimateUsage(request.messages));
+      throw error;
+    }
+    const latencyMs = Date.now() - startTime;
+    onUsage?.(completion.usage ?? estimateUsage(request.messages, completion.content));
+
+    const { parsedResponse, parseError } = parseModelContent(completion.content);
+    const validation = parsedResponse ? validateAIResponse(adapt ? adapt(parsedResponse) : parsedResponse) : null;
+    const violations = validation?.response && check ? check(validation.response) : [];
+    const succeeded = !!validation?.valid && violations.length === 0;
+
+    const record: GenerationAttempt = {
+      attempt,
+      provider: provider.name,
+      model: completion.model,
+      latencyMs,
+      finishReason: completion.finishReason,
+      usage: completion.usage,
+      outcome: succeeded
+        ? "success"
+        : parseError ? "parse_error" : violations.length > 0 ? "policy_violation" : "validation_error",
+    };
+    if (!succeeded) {
+      record.error = parseError
+        || (violations.length > 0 ? `${violations.length} content policy violations` : null)
+        || `${validation?.issues.filter((i) => !i.repaired).length ?? 0} unrepairable schema issues`;
+    }
+    attempts.push(record);
+    usage = addUsage(usage, completion.usage);
+
+    if (succeeded || attempt >= policy.maxAttempts) {
+      return { completion, parseError, validation, attempts, usage };
+    }
+
+    onRetry?.(record);
+
+    // Show the model its own output and what was wrong with it
+    request = {
+      messages: [
+        ...messages,
+        { role: "assistant", content: completion.content },
+        { role: "user", content: buildCorrectionMessage(parseError, validation, violations) },
+      ],
+      maxTokens,
+      signal,
+    };
+  }
+}
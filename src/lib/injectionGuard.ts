@@ -0,0 +1,191 @@
+/**
+ * Prompt-Injection Guard
+ *
+ * Screens the latest user message before generation for attempts to steer
+ * the assistant instead of asking a health question: "ignore previous
+ * instructions", requests for the system prompt, jailbreak personas, fake
+ * system markup and demands to drop safety rules. Local heuristics always
+ * run; a model check can be added for phrasings the patterns miss.
+ *
+ * A detected attempt never reaches the main prompt. It gets a fixed refusal
+ * built locally, like the fallback UI, so the model can't be talked out of
+ * it. A red flag in the same message still wins: the refusal is escalated
+ * to emergency mode rather than dropping the emergency advice.
+ */
+
+import { AIResponse, buildFinalUI } from "./buildFinalUI";
+import { detectRedFlags, forceEmergency } from "./redFlags";
+import { estimateUsage, parseModelContent } from "./generateAIResponse";
+import type { ChatMessage, LLMProvider, TokenUsage } from "./llm";
+import { INJECTION_CHECK_PROMPT } from "@/prompts/injection-check";
+import { renderTemplate, userContent } from "@/prompts/template";
+
+export interface InjectionRule {
+  id: string;
+  // Human-readable trigger, used in applied_rules and the debug output
+  label: string;
+  // The rule matches when any one pattern does
+  patterns: RegExp[];
+}
+
+export interface InjectionMatch {
+  id: string;
+  label: string;
+  source: "heuristic" | "model";
+}
+
+export interface InjectionCheck {
+  detected: boolean;
+  match: InjectionMatch | null;
+  // Whether the model check ran (it is skipped after a heuristic match)
+  modelChecked: boolean;
+  // Tokens the model check spent, charged with the rest of the turn
+  usage: TokenUsage | null;
+}
+
+export const INJECTION_RULES: InjectionRule[] = [
+  {
+    id: "override_instructions",
+    label: "Asked to ignore previous instructions",
+    patterns: [
+      // Needs "previous", "your" etc. so "ignore the instructions on the label" still gets answered
+      /\b(ignore|disregard|forget|override)\b[^.?!\n]{0,20}\b(previous|prior|above|earlier|preceding|your|system)\b[^.?!\n]{0,20}\b(instructions?|rules|prompts?|guidelines|directives)\b/,
+      /\bnew instructions\s*:/,
+    ],
+  },
+  {
+    id: "prompt_extraction",
+    label: "Asked for the system prompt",
+    patterns: [
+      /\bsystem prompt\b/,
+      /\b(reveal|show|print|repeat|output|leak|display)\b[^.?!\n]{0,30}\byour (instructions|prompt|rules|guidelines)\b/,
+      /\bwhat (are|were) your (instructions|rules|guidelines)\b/,
+    ],
+  },
+  {
+    id: "role_override",
+    label: "Asked to take on a new role",
+    patterns: [
+      /\byou are now\b/,
+      /\bfrom now on,? you (are|will|must)\b/,
+      /\bpretend (to be|you are|you'?re)\b/,
+      /\bact as (an? )?(unrestricted|unfiltered|uncensored|jailbroken)\b/,
+      /\bdo anything now\b/,
+      /\b(dan|developer|god|jailbreak) mode\b/,
+      /\bjailbr(eak|oken)\b/,
+    ],
+  },
+  {
+    id: "safety_bypass",
+    label: "Asked to switch off safety rules",
+    patterns: [
+      /\b(bypass|disable|turn off|switch off|skip)\b[^.?!\n]{0,20}\b(safety|filters?|guardrails|restrictions|disclaimers)\b/,
+      /\b(answer|respond|reply|talk)\b[^.?!\n]{0,20}\b(without|with no)( any)? (restrictions|filters|guardrails|censorship|disclaimers|warnings)\b/,
+      /\b(ai|assistant|bot|chatbot|model) (with no|without( any)?) (restrictions|filters|guardrails|rules)\b/,
+    ],
+  },
+  {
+    id: "fake_markup",
+    label: "Message imitates system or assistant markup",
+    patterns: [
+      /<\/?\s*(system|assistant|user_content|instructions?)\s*>/,
+      /^\s*(system|assistant)\s*:/m,
+      /\[\/?inst\]/,
+      /<\|im_(start|end)\|>/,
+      /^#{1,6}\s*(system|new instructions|user input)\b/m,
+    ],
+  },
+];
+
+/**
+ * Return the first injection rule matched by the text, in rule order.
+ */
+export function detectInjection(text: string, rules: InjectionRule[] = INJECTION_RULES): InjectionMatch | null {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+  const rule = rules.find((r) => r.patterns.some((pattern) => pattern.test(normalized)));
+  return rule ? { id: rule.id, label: rule.label, source: "heuristic" } : null;
+}
+
+export function isModelCheckEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.INJECTION_MODEL_CHECK === "1";
+}
+
+/**
+ * Ask the model whether the text is an injection attempt.
+ * Fails open: an error or unreadable answer counts as no detection, since the
+ * message still goes through the escaped prompt slot and the output guards.
+ * A failed call is still charged an estimate, as the prompt may have been billed.
+ */
+export async function checkInjectionWithModel(
+  provider: LLMProvider,
+  text: string,
+  signal?: AbortSignal
+): Promise<{ match: InjectionMatch | null; usage: TokenUsage }> {
+  const messages: ChatMessage[] = [
+    { role: "system", content: renderTemplate(INJECTION_CHECK_PROMPT, { user_message: userContent(text) }) },
+    { role: "user", content: "Classify the message." },
+  ];
+
+  try {
+    const completion = await provider.complete({ messages, maxTokens: 200, signal });
+    const usage = completion.usage ?? estimateUsage(messages, completion.content);
+    const { parsedResponse } = parseModelContent(completion.content);
+    const verdict = parsedResponse as { injection?: unknown; reason?: unknown } | null;
+    if (verdict?.injection !== true) return { match: null, usage };
+
+    const reason = typeof verdict.reason === "string" && verdict.reason ? verdict.reason : "Flagged by model check";
+    return { match: { id: "model_check", label: reason, source: "model" }, usage };
+  } catch (error) {
+    console.warn("Injection model check failed:", error);
+    return { match: null, usage: estimateUsage(messages) };
+  }
+}
+
+/**
+ * Run the heuristics, then the model check when it is enabled.
+ */
+export async function runInjectionCheck(
+  text: string,
+  provider: LLMProvider,
+  signal?: AbortSignal,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<InjectionCheck> {
+  const heuristic = detectInjection(text);
+  if (heuristic) return { detected: true, match: heuristic, modelChecked: false, usage: null };
+  if (!isModelCheckEnabled(env)) return { detected: false, match: null, modelChecked: false, usage: null };
+
+  const { match, usage } = await checkInjectionWithModel(provider, text, signal);
+  return { detected: !!match, match, modelChecked: true, usage };
+}
+
+const REFUSAL_RESPONSE: AIResponse = {
+  intent_detection: {
+    primary_intent: "Off-Topic",
+    secondary_intents: [],
+    risk_level: "low",
+    reasoning: "Prompt injection attempt",
+  },
+  ux_mode: { mode: "informational", reason: "Request to change the assistant's instructions" },
+  response_content: {
+    summary: "I can only help with health questions, and I can't change how I work or share my instructions. If you have a health question, ask it in your own words and I'll do my best to help.",
+  },
+};
+
+/**
+ * Fixed response for a detected injection attempt, built without the model.
+ */
+export function buildInjectionResponse(userMessage: string, match: InjectionMatch) {
+  const redFlag = detectRedFlags(userMessage)[0] ?? null;
+  // With a red flag the emergency alert stands alone; the refusal would only get in its way
+  const response = redFlag
+    ? forceEmergency({ ...REFUSAL_RESPONSE, response_content: {} }, redFlag)
+    : REFUSAL_RESPONSE;
+
+  const buildResult = buildFinalUI(response, 0, redFlag);
+  buildResult.guardrails.applied_rules.unshift(`Prompt injection blocked: ${match.label}`);
+
+  return {
+    ...response,
+    ...buildResult,
+  };
+}
@@ -0,0 +1,115 @@
+import { readServerSentEvents } from "./sse";
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderError, TokenUsage } from "./types";
+
+// Map Anthropic stop reasons onto OpenAI finish reasons
+const STOP_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+};
+
+function toUsage(inputTokens: number, outputTokens: number): TokenUsage {
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Provider for Anthropic's Messages API.
+ * System messages are lifted out of the array into the top-level `system` field.
+ */
+export function createAnthropicProvider(apiKey: string | undefined, model: string): LLMProvider {
+  const request = async ({ messages, maxTokens = 4096, signal }: CompletionRequest, stream: boolean) => {
+    const system = messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+
+    const response = await fetch("https://api.anthropic.com/v1/messages", {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": apiKey || "",
+        "anthropic-version": "2023-06-01",
+      },
+      body: JSON.stringify({
+        model,
+        system,
+        messages: messages.filter((m) => m.role !== "system"),
+        max_tokens: maxTokens,
+        stream,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new ProviderError("anthropic", error?.error?.message || "API request failed", response.status);
+    }
+
+    return response;
+  };
+
+  return {
+    name: "anthropic",
+    model,
+    async complete(completionRequest: CompletionRequest): Promise<CompletionResult> {
+      const response = await request(completionRequest, false);
+      const data = await response.json();
+      const content = Array.isArray(data.content)
+        ? data.content
+            .filter((block: { type: string }) => block.type === "text")
+            .map((block: { text: string }) => block.text)
+            .join("")
+        : "";
+
+      return {
+        content,
+        finishReason: STOP_REASONS[data.stop_reason] || data.stop_reason || "unknown",
+        model: data.model || model,
+        usage: toUsage(data.usage?.input_tokens ?? 0, data.usage?.output_tokens ?? 0),
+      };
+    },
+
+    async *stream(completionRequest: CompletionRequest): AsyncGenerator<string, CompletionResult> {
+      const response = await request(completionRequest, true);
+      let content = "";
+      let stopReason = "unknown";
+      let responseModel = model;
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const data of readServerSentEvents(response)) {
+        const event = JSON.parse(data);
+
+        switch (event.type) {
+          case "message_start":
+            responseModel = event.message?.model || model;
+            inputTokens = event.message?.usage?.input_tokens ?? 0;
+            break;
+          case "content_block_delta":
+            if (event.delta?.type === "text_delta") {
+              content += event.delta.text;
+              yield event.delta.text;
+            }
+            break;
+          case "message_delta":
+            stopReason = event.delta?.stop_reason || stopReason;
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+            break;
+          case "error":
+            throw new ProviderError("anthropic", event.error?.message || "Stream failed", 502);
+        }
+      }
+
+      return {
+        content,
+        finishReason: STOP_REASONS[stopReason] || stopReason,
+        model: responseModel,
+        usage: toUsage(inputTokens, outputTokens),
+      };
+    },
+  };
+}
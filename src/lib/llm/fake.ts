@@ -0,0 +1,250 @@
+import { AIResponse } from "@/lib/buildFinalUI";
+import { CompletionRequest, CompletionResult, LLMProvider } from "./types";
+
+/**
+ * Deterministic in-process provider.
+ *
+ * Returns a canned AIResponse chosen by simple keyword matching on the latest
+ * user message, so the full route → buildFinalUI → UI pipeline can run offline
+ * (CI, demos without an API key). Same input always yields the same output.
+ *
+ * With the full assembly prompt it answers in that prompt's 9-section shape,
+ * assembling final_ui naively in stacking order so it can differ from the
+ * rules engine.
+ *
+ * When the system prompt lists retrieved documents it cites the first one by
+ * id and leaves sources to the server, as the real prompt asks.
+ *
+ * With FAKE_LLM_FAIL_FIRST=1 the first attempt of each turn returns truncated
+ * JSON, to exercise the repair-and-retry loop.
+ */
+
+const EMERGENCY_KEYWORDS = ["can't breathe", "cannot breathe", "chest hurts", "chest pain", "unconscious", "overdose"];
+const VAGUE_KEYWORDS = ["don't feel right", "feel off", "not feeling well"];
+const HEALTH_KEYWORDS = [
+  "pain", "tired", "dizzy", "sick", "medication", "ibuprofen", "sleep", "blood", "diabetes",
+  "infection", "nause", "health", "doctor", "symptom", "fever", "cough",
+];
+
+// "### [article-id] Title" headings in the RETRIEVED DOCUMENTS block
+const RETRIEVED_DOCUMENT = /^### \[([a-z0-9-]+)\]/m;
+
+/**
+ * @param citeId - Retrieved article to cite by id; undefined when the prompt
+ *   has no retrieval block, null when it has one with no documents
+ */
+function buildResponse(question: string, citeId?: string | null): AIResponse {
+  const text = question.toLowerCase();
+
+  if (EMERGENCY_KEYWORDS.some((k) => text.includes(k))) {
+    return {
+      intent_detection: {
+        primary_intent: "Triage (Urgent)",
+        secondary_intents: [],
+        risk_level: "high",
+        reasoning: "Fake provider: emergency keyword matched.",
+      },
+      ux_mode: { mode: "emergency", reason: "Symptoms may be life-threatening." },
+      response_content: {
+        safety_alert: {
+          level: "emergency",
+          title: "Get emergency help now",
+          message: "These symptoms can be a sign of a medical emergency. Call emergency services right away.",
+        },
+        cta: { primary: "Call emergency services" },
+      },
+    };
+  }
+
+  if (VAGUE_KEYWORDS.some((k) => text.includes(k))) {
+    return {
+      intent_detection: {
+        primary_intent: "Triage (Urgent)",
+        secondary_intents: [],
+        risk_level: "low",
+        reasoning: "Fake provider: vague symptom description.",
+      },
+      ux_mode: { mode: "clarification", reason: "More detail is needed." },
+      response_content: {
+        summary: "Let me ask a quick question.",
+        clarifying_question: {
+          question: "What are you noticing most?",
+          options: ["Low energy", "Pain or discomfort", "Low mood", "Something else"],
+          allows_exit: true,
+        },
+      },
+    };
+  }
+
+  if (!HEALTH_KEYWORDS.some((k) => text.includes(k))) {
+    return {
+      intent_detection: {
+        primary_intent: "Off-Topic",
+        secondary_intents: [],
+        risk_level: "low",
+        reasoning: "Fake provider: no health keywords matched.",
+      },
+      ux_mode: { mode: "informational", reason: "Non-health question." },
+      response_content: {
+        summary: "I'm designed to help with health and wellness questions. I'm happy to answer any health-related questions you might have.",
+      },
+    };
+  }
+
+  const marker = citeId ? ` [${citeId}]` : citeId === undefined ? " [1]" : "";
+
+  return {
+    intent_detection: {
+      primary_intent: "Explain",
+      secondary_intents: [],
+      risk_level: "low",
+      reasoning: "Fake provider: general health question.",
+    },
+    ux_mode: { mode: "informational", reason: "Low-risk informational question." },
+    response_content: {
+      summary: `This is a deterministic response from the fake provider${marker}.`,
+      safety_alert: {
+        level: "informational",
+        message: "If symptoms persist or worsen, consult a healthcare provider.",
+      },
+      checklist: {
+        heading: "Things you can do",
+        items: [`Rest and stay hydrated${marker}`, "Track when symptoms happen", "Speak to a pharmacist if unsure"],
+      },
+      ...(citeId === undefined && {
+        sources: [
+          {
+            title: "Symptoms A-Z",
+            site_name: "Mayo Clinic",
+            url: "https://www.mayoclinic.org/symptoms",
+          },
+        ],
+      }),
+    },
+  };
+}
+
+const STACKING_ORDER = ["safety_alert", "summary", "clarifying_question", "checklist", "cta", "sources"] as const;
+
+// Wrap a lite response in the full prompt's output sections
+function toFullOutput(response: AIResponse, question: string): object {
+  const { sources, ...content } = response.response_content;
+  const included = STACKING_ORDER.filter((type) => response.response_content[type] !== undefined);
+  const clarifying = !!content.clarifying_question;
+
+  return {
+    user_input: { question },
+    intent_detection: response.intent_detection,
+    ux_mode: response.ux_mode,
+    guardrails: {
+      triage_required: response.ux_mode.mode === "emergency",
+      free_text_allowed: !clarifying,
+      follow_up_questions_allowed: true,
+      escalation_required: response.ux_mode.mode === "emergency",
+      allowed_components: included,
+      blocked_components: [],
+    },
+    structured_response: {
+      ...content,
+      ...(sources && { sources: sources.map(({ title, url }) => ({ name: title, url, note: "" })) }),
+    },
+    component_selection: {
+      selected_components: included.map((component) => ({ component, included: true })),
+    },
+    stacking_and_limits: {
+      stacking_order: included,
+      cta_included: included.includes("cta"),
+      clarifying_question_included: clarifying,
+      rules_violated: false,
+      suppressed_components: [],
+      notes: "",
+    },
+    final_ui: {
+      components: included.map((type) => ({ type, content: response.response_content[type] })),
+    },
+    exit_state: {
+      waiting_for_structured_input: clarifying,
+      returns_to_free_text: !clarifying,
+    },
+  };
+}
+
+// Streamed output is split into fixed-size chunks with a short pause, so progressive rendering is visible
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY = 15;
+
+// Resolves after ms, or rejects with the signal's reason as soon as it aborts, like fetch does
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * @param delayMs Wait before answering, to reproduce a slow or hung provider
+ */
+export function createFakeProvider(
+  model: string = "fake-remedy",
+  failFirstAttempt: boolean = false,
+  delayMs: number = 0
+): LLMProvider {
+  const complete = async ({ messages, signal }: CompletionRequest): Promise<CompletionResult> => {
+    if (delayMs > 0) await wait(delayMs, signal);
+
+    // A correction turn follows the model's own raw JSON; history turns hold plain summaries
+    const isRetry = messages[messages.length - 2]?.role === "assistant" &&
+      messages[messages.length - 2].content.trimStart().startsWith("{");
+    const userMessages = messages.filter((m) => m.role === "user");
+    const question = isRetry
+      ? userMessages[userMessages.length - 2]?.content || ""
+      : userMessages[userMessages.length - 1]?.content || "";
+    const system = messages.find((m) => m.role === "system")?.content || "";
+    const citeId = system.includes("## RETRIEVED DOCUMENTS")
+      ? system.match(RETRIEVED_DOCUMENT)?.[1] ?? null
+      : undefined;
+    const response = buildResponse(question, citeId);
+    const output = system.includes("Remedy Injection Check")
+      ? { injection: false, reason: "Fake provider: the model check never flags messages." }
+      : system.includes("Remedy UX OS") ? toFullOutput(response, question) : response;
+    const json = JSON.stringify(output, null, 2);
+    const content = failFirstAttempt && !isRetry ? json.slice(0, json.length / 2) : json;
+
+    // Rough 4-chars-per-token estimate keeps usage plausible for debug output
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      content,
+      finishReason: "stop",
+      model,
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    };
+  };
+
+  return {
+    name: "fake",
+    model,
+    complete,
+    async *stream(request: CompletionRequest): AsyncGenerator<string, CompletionResult> {
+      const result = await complete(request);
+      for (let i = 0; i < result.content.length; i += STREAM_CHUNK_SIZE) {
+        await wait(STREAM_CHUNK_DELAY, request.signal);
+        yield result.content.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * LLM Provider Selection
+ *
+ * Picks the model vendor from environment config so each deployment can
+ * switch providers without code changes:
+ *
+ * - LLM_PROVIDER: openai (default) | anthropic | azure | local | fake
+ * - LLM_MODEL: model id (or Azure deployment name) overriding the provider default
+ * - LLM_FALLBACK_PROVIDER / LLM_FALLBACK_MODEL: secondary model used when the
+ *   primary keeps returning unusable output (either one enables the fallback)
+ */
+
+import { createAnthropicProvider } from "./anthropic";
+import { createFakeProvider } from "./fake";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { LLMProvider, ProviderName } from "./types";
+
+export * from "./types";
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: "gpt-5-mini",
+  anthropic: "claude-3-5-haiku-latest",
+  azure: "gpt-5-mini",
+  local: "llama3.1",
+  fake: "fake-remedy",
+};
+
+export function getProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || "openai") as ProviderName;
+  const model = env.LLM_MODEL || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case "openai":
+      return createOpenAICompatibleProvider({
+        name,
+        url: "https://api.openai.com/v1/chat/completions",
+        model,
+        headers: { Authorization: `Bearer ${env.OPENAI_API_KEY}` },
+        tokenLimitField: "max_completion_tokens",
+      });
+
+    case "anthropic":
+      return createAnthropicProvider(env.ANTHROPIC_API_KEY, model);
+
+    case "azure":
+      // Azure routes by deployment name in the URL; the model field is ignored upstream
+      return createOpenAICompatibleProvider({
+        name,
+        url: `${env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${model}/chat/completions?api-version=${env.AZURE_OPENAI_API_VERSION || "2024-10-21"}`,
+        model,
+        headers: { "api-key": env.AZURE_OPENAI_API_KEY || "" },
+        tokenLimitField: "max_completion_tokens",
+      });
+
+    case "local":
+      return createOpenAICompatibleProvider({
+        name,
+        url: `${env.LLM_BASE_URL || "http://localhost:11434/v1"}/chat/completions`,
+        model,
+        headers: env.LLM_API_KEY ? { Authorization: `Bearer ${env.LLM_API_KEY}` } : {},
+        tokenLimitField: "max_tokens",
+      });
+
+    case "fake":
+      return createFakeProvider(model, env.FAKE_LLM_FAIL_FIRST === "1", Number(env.FAKE_LLM_DELAY_MS) || 0);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * Secondary provider for the retry loop, or null when no fallback is configured.
+ * Defaults to the primary vendor, so LLM_FALLBACK_MODEL alone switches models.
+ */
+export function getFallbackProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  if (!env.LLM_FALLBACK_PROVIDER && !env.LLM_FALLBACK_MODEL) return null;
+
+  return getProvider({
+    ...env,
+    LLM_PROVIDER: env.LLM_FALLBACK_PROVIDER || env.LLM_PROVIDER,
+    LLM_MODEL: env.LLM_FALLBACK_MODEL,
+  });
+}
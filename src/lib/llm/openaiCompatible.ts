@@ -0,0 +1,84 @@
+import { readServerSentEvents } from "./sse";
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderError, ProviderName, TokenUsage } from "./types";
+
+interface OpenAICompatibleOptions {
+  name: ProviderName;
+  url: string;
+  model: string;
+  headers: Record<string, string>;
+  // OpenAI's reasoning models only accept max_completion_tokens; most local servers only know max_tokens
+  tokenLimitField: "max_completion_tokens" | "max_tokens";
+}
+
+/**
+ * Provider for any endpoint speaking the OpenAI chat completions protocol.
+ * Backs the OpenAI, Azure OpenAI and local (Ollama, vLLM, LM Studio) providers.
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const { name, url, model, headers, tokenLimitField } = options;
+
+  const request = async ({ messages, maxTokens = 4096, signal }: CompletionRequest, stream: boolean) => {
+    const response = await fetch(url, {
+      method: "POST",
+      signal,
+      headers: {
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        [tokenLimitField]: maxTokens,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new ProviderError(name, error?.error?.message || "API request failed", response.status);
+    }
+
+    return response;
+  };
+
+  return {
+    name,
+    model,
+    async complete(completionRequest: CompletionRequest): Promise<CompletionResult> {
+      const response = await request(completionRequest, false);
+      const data = await response.json();
+
+      return {
+        content: data.choices?.[0]?.message?.content || "",
+        finishReason: data.choices?.[0]?.finish_reason || "unknown",
+        model: data.model || model,
+        usage: data.usage,
+      };
+    },
+
+    async *stream(completionRequest: CompletionRequest): AsyncGenerator<string, CompletionResult> {
+      const response = await request(completionRequest, true);
+      let content = "";
+      let finishReason = "unknown";
+      let responseModel = model;
+      let usage: TokenUsage | undefined;
+
+      for await (const data of readServerSentEvents(response)) {
+        if (data === "[DONE]") break;
+        const chunk = JSON.parse(data);
+
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          yield delta;
+        }
+        if (chunk.choices?.[0]?.finish_reason) finishReason = chunk.choices[0].finish_reason;
+        if (chunk.model) responseModel = chunk.model;
+        // Usage arrives on a final chunk with an empty choices array
+        if (chunk.usage) usage = chunk.usage;
+      }
+
+      return { content, finishReason, model: responseModel, usage };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * LLM Provider Types
+ *
+ * Shared contract between the chat route and every model vendor.
+ * Providers normalize their responses into the OpenAI-style shape the
+ * route already reports under `debug` (finish reason, model, usage).
+ */
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// Token usage in OpenAI's field names so the debug block stays stable across vendors
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  maxTokens?: number;
+  // Cancels the upstream request, e.g. when the client disconnects or the server timeout passes
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  finishReason: string;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields content deltas as they arrive, then returns the same result complete() would
+  stream(request: CompletionRequest): AsyncGenerator<string, CompletionResult>;
+}
+
+export type ProviderName = "openai" | "anthropic" | "azure" | "local" | "fake";
+
+/**
+ * Raised when the upstream provider rejects a request.
+ * Carries the upstream HTTP status so the route can pass it through.
+ */
+export class ProviderError extends Error {
+  status: number;
+  provider: ProviderName;
+
+  constructor(provider: ProviderName, message: string, status: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.provider = provider;
+    this.status = status;
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Partial JSON Parser
+ *
+ * Parses the JSON object a model is still in the middle of emitting.
+ * Scans the text once, remembers the last point at which the document could
+ * be closed off validly, then appends the missing closing brackets.
+ * A string value cut mid-way is kept and closed so text can be shown early.
+ */
+
+interface Frame {
+  closer: "}" | "]";
+  state: "key" | "colon" | "value" | "comma";
+}
+
+/**
+ * Parse a possibly incomplete JSON object.
+ * Returns undefined when no object has started or the prefix cannot be completed.
+ */
+export function parsePartialJson(text: string): unknown {
+  const start = text.indexOf("{");
+  if (start === -1) return undefined;
+  const src = text.slice(start);
+
+  const stack: Frame[] = [];
+  let safeEnd = -1;
+  let safeClosers = "";
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let literalStart = -1;
+
+  const closers = () => stack.map((f) => f.closer).reverse().join("");
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeClosers = closers();
+  };
+  const valueDone = (end: number) => {
+    const top = stack[stack.length - 1];
+    if (top) top.state = "comma";
+    markSafe(end);
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (c === "\\") {
+        escaped = true;
+      } else if (c === '"') {
+        inString = false;
+        if (stringIsKey) {
+          stack[stack.length - 1].state = "colon";
+        } else {
+          valueDone(i + 1);
+        }
+      }
+      continue;
+    }
+
+    // Literals (numbers, true, false, null) end at the next delimiter
+    if (literalStart !== -1) {
+      if (!/[\s,\]}:]/.test(c)) continue;
+      literalStart = -1;
+      valueDone(i);
+    }
+
+    const top = stack[stack.length - 1];
+    switch (c) {
+      case "{":
+        stack.push({ closer: "}", state: "key" });
+        markSafe(i + 1);
+        break;
+      case "[":
+        stack.push({ closer: "]", state: "value" });
+        markSafe(i + 1);
+        break;
+      case "}":
+      case "]":
+        stack.pop();
+        valueDone(i + 1);
+        if (stack.length === 0) {
+          return tryParse(src.slice(0, i + 1));
+        }
+        break;
+      case '"':
+        inString = true;
+        stringIsKey = top?.closer === "}" && top.state === "key";
+        break;
+      case ":":
+        if (top) top.state = "value";
+        break;
+      case ",":
+        if (top) top.state = top.closer === "}" ? "key" : "value";
+        break;
+      default:
+        if (!/\s/.test(c)) literalStart = i;
+    }
+  }
+
+  // Cut inside a string value: keep the text so far, minus any half-written escape
+  if (inString && !stringIsKey) {
+    const partial = src.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "");
+    const value = tryParse(partial + '"' + closers());
+    if (value !== undefined) return value;
+  }
+
+  if (safeEnd === -1) return undefined;
+  return tryParse(src.slice(0, safeEnd) + safeClosers);
+}
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
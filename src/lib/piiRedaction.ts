@@ -0,0 +1,130 @@
+/**
+ * PII Redaction
+ *
+ * Replaces personal details in user-written text with typed placeholders
+ * ("[EMAIL_1]", "[NAME_2]") before anything is sent to the model provider.
+ * The placeholder → original map stays on the server; if the model echoes a
+ * placeholder, restorePii puts the original back before the response is
+ * shown, so the user sees their own details and the provider never does.
+ *
+ * Detection is pattern-based. Names are only caught after a cue ("my name
+ * is", "Dr.", "my son"), and health card numbers only after a keyword
+ * ("health card", "OHIP", "NHS"), since bare names and digit runs are too
+ * ambiguous to redact on shape alone ("I'm Sarah" reads like "I'm Canadian").
+ * Numbering is deterministic, so redacting the same conversation twice gives
+ * the same placeholders.
+ */
+
+export type PiiType = "NAME" | "EMAIL" | "PHONE" | "HEALTH_CARD" | "ADDRESS";
+
+export interface PiiRule {
+  type: PiiType;
+  // Global; the whole match is the entity (cues sit in lookbehinds)
+  pattern: RegExp;
+}
+
+// Placeholder → original text
+export type RedactionMap = Record<string, string>;
+
+export interface RedactionResult<T> {
+  value: T;
+  map: RedactionMap;
+  // Distinct entities redacted, per type
+  types: Partial<Record<PiiType, number>>;
+}
+
+const NAME = "[A-Z][a-z]+(?:[- ][A-Z][a-z]+)?";
+const RELATIONS = "son|daughter|wife|husband|partner|mother|mom|mum|father|dad|baby|child|kid|brother|sister|friend|grandma|grandpa";
+const STREET_TYPES = "Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Crescent|Cres|Place|Pl|Way|Terrace|Close";
+
+// Rule order matters: keyword-anchored numbers go before phones, which would also match them
+export const PII_RULES: PiiRule[] = [
+  {
+    type: "HEALTH_CARD",
+    pattern: /(?<=\b(?:health card|health number|ohip|nhs|medicare|medicaid|insurance|member id)\b[^\d\n]{0,20})\d[\d -]{5,}\d(?:-[a-z]{2}\b)?/gi,
+  },
+  {
+    type: "EMAIL",
+    pattern: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  },
+  {
+    type: "PHONE",
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{3}\)|\d{3})[ .-]?\d{3}[ .-]?\d{4}(?!\w)|(?<![\w+])\+\d{1,3}(?:[ .-]?\d){8,11}(?!\w)|\b0\d{4} ?\d{6}\b/g,
+  },
+  {
+    type: "ADDRESS",
+    pattern: new RegExp(`\\b\\d{1,5} (?:[A-Z][a-z]+ ){1,3}(?:${STREET_TYPES})\\b\\.?`, "g"),
+  },
+  {
+    // Canadian and UK postcodes
+    type: "ADDRESS",
+    pattern: /\b[A-Z]\d[A-Z] ?\d[A-Z]\d\b|\b[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}\b/g,
+  },
+  {
+    type: "NAME",
+    pattern: new RegExp(`(?<=\\b(?:[Mm]y name is|[Mm]y name's|[Cc]all me) )${NAME}`, "g"),
+  },
+  {
+    type: "NAME",
+    pattern: new RegExp(`(?<=\\b(?:Dr|Mr|Mrs|Ms|Miss|Mx)\\.? )${NAME}`, "g"),
+  },
+  {
+    type: "NAME",
+    pattern: new RegExp(`(?<=\\b[Mm]y (?:${RELATIONS}),? )${NAME}`, "g"),
+  },
+];
+
+const PLACEHOLDER = /\[(?:NAME|EMAIL|PHONE|HEALTH_CARD|ADDRESS)_\d+\]/g;
+
+export function isRedactionEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.PII_REDACTION !== "0";
+}
+
+// Apply fn to every string inside a JSON-like value
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === "string") return fn(value) as T;
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, fn)) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, fn)])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Redact every string in a value (a message, or a whole list of turns).
+ * The same entity gets the same placeholder wherever it appears.
+ */
+export function redactPii<T>(value: T, rules: PiiRule[] = PII_RULES): RedactionResult<T> {
+  const map: RedactionMap = {};
+  const placeholders = new Map<string, string>();
+  const types: Partial<Record<PiiType, number>> = {};
+
+  const placeholderFor = (type: PiiType, entity: string): string => {
+    const key = `${type}:${entity}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      types[type] = (types[type] ?? 0) + 1;
+      placeholder = `[${type}_${types[type]}]`;
+      placeholders.set(key, placeholder);
+      map[placeholder] = entity;
+    }
+    return placeholder;
+  };
+
+  const redacted = mapStrings(value, (text) =>
+    rules.reduce((current, rule) => current.replace(rule.pattern, (entity) => placeholderFor(rule.type, entity)), text)
+  );
+
+  return { value: redacted, map, types };
+}
+
+/**
+ * Put the original text back wherever a known placeholder appears.
+ * Placeholders the map doesn't know are left as they are.
+ */
+export function restorePii<T>(value: T, map: RedactionMap): T {
+  if (Object.keys(map).length === 0) return value;
+  return mapStrings(value, (text) => text.replace(PLACEHOLDER, (placeholder) => map[placeholder] ?? placeholder));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { checkTokenBudget, DEFAULT_RATE_LIMITS, getClientIp, recordTokenUsage } from "./index";
+
+const forwardedFor = (value: string) => new Headers({ "x-forwarded-for": value });
+const env = (vars: Record<string, string> = {}) => vars as NodeJS.ProcessEnv;
+
+describe("getClientIp", () => {
+  it("uses the entry added by the trusted proxy, not the one the client sent", () => {
+    expect(getClientIp(forwardedFor("6.6.6.6, 203.0.113.7"), env())).toBe("203.0.113.7");
+  });
+
+  it("counts TRUSTED_PROXY_HOPS entries from the right", () => {
+    const headers = forwardedFor("6.6.6.6, 203.0.113.7, 10.0.0.2");
+    expect(getClientIp(headers, env({ TRUSTED_PROXY_HOPS: "2" }))).toBe("203.0.113.7");
+  });
+
+  it("uses the leftmost entry when a proxy was skipped", () => {
+    expect(getClientIp(forwardedFor("203.0.113.7"), env({ TRUSTED_PROXY_HOPS: "3" }))).toBe("203.0.113.7");
+  });
+
+  it("ignores x-real-ip and falls back to a shared key without the header", () => {
+    expect(getClientIp(new Headers({ "x-real-ip": "6.6.6.6" }), env())).toBe("unknown");
+  });
+});
+
+describe("checkTokenBudget", () => {
+  const config = { ...DEFAULT_RATE_LIMITS, dailyTokenBudget: 100, ipDailyTokenBudget: 150 };
+  const now = Date.UTC(2026, 0, 1, 12);
+
+  it("refuses a new session from an IP that spent its budget", async () => {
+    await recordTokenUsage({ sessionId: "first", ip: "198.51.100.1" }, 90, config, now);
+    await recordTokenUsage({ sessionId: "second", ip: "198.51.100.1" }, 90, config, now);
+
+    const limit = await checkTokenBudget({ sessionId: "third", ip: "198.51.100.1" }, config, now);
+    expect(limit).toEqual({ scope: "ip_daily_tokens", retryAfterMs: 12 * 60 * 60 * 1000 });
+    expect(await checkTokenBudget({ sessionId: "third", ip: "198.51.100.2" }, config, now)).toBeNull();
+  });
+
+  it("refuses a session that spent its own budget", async () => {
+    await recordTokenUsage({ sessionId: "heavy", ip: "198.51.100.3" }, 100, config, now);
+    expect(await checkTokenBudget({ sessionId: "heavy", ip: "198.51.100.3" }, config, now))
+      .toMatchObject({ scope: "daily_tokens" });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Rate Limiting
+ *
+ * Limits for /api/chat, from environment config:
+ *
+ * - RATE_LIMIT_ENABLED: 0 turns every limit off
+ * - RATE_LIMIT_STORE: memory (default)
+ * - RATE_LIMIT_IP_CAPACITY / RATE_LIMIT_IP_PER_MINUTE: burst and refill per client IP (default 20 / 10)
+ * - RATE_LIMIT_SESSION_CAPACITY / RATE_LIMIT_SESSION_PER_MINUTE: burst and refill per session (default 10 / 6)
+ * - SESSION_DAILY_TOKEN_BUDGET: model tokens per session per UTC day (default 200000, 0 for no budget)
+ * - IP_DAILY_TOKEN_BUDGET: model tokens per client IP per UTC day (default 1000000, 0 for no budget)
+ * - TRUSTED_PROXY_HOPS: proxies in front of the app that append to x-forwarded-for (default 1)
+ *
+ * One store is shared by every request in the process.
+ */
+
+import { createMemoryRateLimitStore } from "./memory";
+import { BucketLimit, LimitExceeded, LimitScope, RateLimitStore, RateLimitStoreName } from "./types";
+
+export * from "./types";
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  ip: BucketLimit;
+  session: BucketLimit;
+  dailyTokenBudget: number;
+  ipDailyTokenBudget: number;
+}
+
+// Whose spend a turn is charged to; new sessions are free to make, so the IP is charged too
+export interface BudgetOwner {
+  sessionId: string;
+  ip: string;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  enabled: true,
+  ip: { capacity: 20, refillPerMinute: 10 },
+  session: { capacity: 10, refillPerMinute: 6 },
+  dailyTokenBudget: 200000,
+  ipDailyTokenBudget: 1000000,
+};
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  if (store) return store;
+
+  const name = (env.RATE_LIMIT_STORE || "memory") as RateLimitStoreName;
+  switch (name) {
+    case "memory":
+      store = createMemoryRateLimitStore();
+      break;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}"`);
+  }
+  return store;
+}
+
+// Positive numbers only; anything else falls back to the default
+function readPositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return parsed > 0 ? parsed : fallback;
+}
+
+// Zero or more; 0 means no budget
+function readBudget(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && parsed >= 0 ? parsed : fallback;
+}
+
+export function getRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  return {
+    enabled: env.RATE_LIMIT_ENABLED !== "0",
+    ip: {
+      capacity: readPositive(env.RATE_LIMIT_IP_CAPACITY, DEFAULT_RATE_LIMITS.ip.capacity),
+      refillPerMinute: readPositive(env.RATE_LIMIT_IP_PER_MINUTE, DEFAULT_RATE_LIMITS.ip.refillPerMinute),
+    },
+    session: {
+      capacity: readPositive(env.RATE_LIMIT_SESSION_CAPACITY, DEFAULT_RATE_LIMITS.session.capacity),
+      refillPerMinute: readPositive(env.RATE_LIMIT_SESSION_PER_MINUTE, DEFAULT_RATE_LIMITS.session.refillPerMinute),
+    },
+    dailyTokenBudget: readBudget(env.SESSION_DAILY_TOKEN_BUDGET, DEFAULT_RATE_LIMITS.dailyTokenBudget),
+    ipDailyTokenBudget: readBudget(env.IP_DAILY_TOKEN_BUDGET, DEFAULT_RATE_LIMITS.ipDailyTokenBudget),
+  };
+}
+
+/**
+ * The caller's IP as seen by the outermost trusted proxy.
+ *
+ * Each proxy appends the address it received the request from, so entries
+ * are only trustworthy from the right: with TRUSTED_PROXY_HOPS proxies, the
+ * entry that many places from the end was written by the outermost one.
+ * Anything to its left came from the client and can be forged. Next.js fills
+ * in the socket address when a request arrives without the header, so a
+ * direct connection is keyed by its socket address.
+ */
+export function getClientIp(headers: Headers, env: NodeJS.ProcessEnv = process.env): string {
+  const hops = Math.floor(readPositive(env.TRUSTED_PROXY_HOPS, DEFAULT_TRUSTED_PROXY_HOPS));
+  const entries = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  // Fewer entries than hops means a proxy was skipped; the leftmost is the closest we have
+  return entries[Math.max(0, entries.length - hops)] || "unknown";
+}
+
+/**
+ * Take one request from the IP's or session's bucket.
+ */
+export async function checkRequestLimit(
+  scope: "ip" | "session",
+  key: string,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): Promise<LimitExceeded | null> {
+  if (!config.enabled) return null;
+  const result = await getRateLimitStore().take(`${scope}:${key}`, config[scope], now);
+  return result.allowed ? null : { scope, retryAfterMs: result.retryAfterMs };
+}
+
+// The session's and the IP's budgets for the current UTC day, skipping those turned off
+function budgetWindows(
+  owner: BudgetOwner,
+  config: RateLimitConfig,
+  now: number
+): Array<{ scope: LimitScope; key: string; budget: number; resetAt: number }> {
+  const day = Math.floor(now / DAY_MS);
+  const resetAt = (day + 1) * DAY_MS;
+  return [
+    { scope: "daily_tokens" as const, key: `tokens:session:${owner.sessionId}:${day}`, budget: config.dailyTokenBudget, resetAt },
+    { scope: "ip_daily_tokens" as const, key: `tokens:ip:${owner.ip}:${day}`, budget: config.ipDailyTokenBudget, resetAt },
+  ].filter((window) => window.budget > 0);
+}
+
+/**
+ * Refuse a session, or an IP, that has already spent today's token budget.
+ * The turn that crosses a budget still completes; the next one is refused.
+ */
+export async function checkTokenBudget(
+  owner: BudgetOwner,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): Promise<LimitExceeded | null> {
+  if (!config.enabled) return null;
+  for (const { scope, key, budget, resetAt } of budgetWindows(owner, config, now)) {
+    const used = await getRateLimitStore().getUsage(key, now);
+    if (used >= budget) return { scope, retryAfterMs: resetAt - now };
+  }
+  return null;
+}
+
+export async function recordTokenUsage(
+  owner: BudgetOwner,
+  tokens: number,
+  config: RateLimitConfig,
+  now: number = Date.now()
+): Promise<void> {
+  if (!config.enabled || tokens <= 0) return;
+  for (const { key, resetAt } of budgetWindows(owner, config, now)) {
+    await getRateLimitStore().addUsage(key, tokens, resetAt, now);
+  }
+}
@@ -0,0 +1,61 @@
+import { RateLimitStore } from "./types";
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface Counter {
+  total: number;
+  resetAt: number;
+}
+
+// Re-inserting moves a key to the end, so the first key is always the least recently used
+function touch<T>(map: Map<string, T>, key: string, value: T, maxKeys: number): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > maxKeys) map.delete(map.keys().next().value!);
+}
+
+/**
+ * Process-local store. Limits are per instance and reset on restart, which
+ * is fine for a single-instance deployment; several instances need a shared
+ * store behind the same interface. The least recently used keys are evicted
+ * once the limit is reached, which at worst hands an idle key a full bucket.
+ */
+export function createMemoryRateLimitStore(maxKeys: number = 10000): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+  const counters = new Map<string, Counter>();
+
+  return {
+    name: "memory",
+
+    async take(key, { capacity, refillPerMinute }, now) {
+      const refillPerMs = refillPerMinute / 60000;
+      const previous = buckets.get(key);
+      const tokens = previous
+        ? Math.min(capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+        : capacity;
+
+      if (tokens < 1) {
+        touch(buckets, key, { tokens, updatedAt: now }, maxKeys);
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) };
+      }
+
+      touch(buckets, key, { tokens: tokens - 1, updatedAt: now }, maxKeys);
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+    },
+
+    async addUsage(key, amount, resetAt, now) {
+      const previous = counters.get(key);
+      const total = (previous && previous.resetAt > now ? previous.total : 0) + amount;
+      touch(counters, key, { total, resetAt }, maxKeys);
+      return total;
+    },
+
+    async getUsage(key, now) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > now ? counter.total : 0;
+    },
+  };
+}
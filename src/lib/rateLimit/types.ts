@@ -0,0 +1,40 @@
+/**
+ * Rate Limit Types
+ *
+ * Requests are limited with token buckets: each key (an IP or a session)
+ * holds up to `capacity` tokens, refilled continuously, and every request
+ * takes one. Spend is limited separately by daily budgets of model tokens
+ * per session and per IP, counted from the provider's reported usage.
+ */
+
+export interface BucketLimit {
+  // Burst size
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export interface BucketResult {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Until the next token, when not allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimitStore {
+  name: string;
+  // Take one token from the key's bucket, refilling for the time since its last use
+  take(key: string, limit: BucketLimit, now: number): Promise<BucketResult>;
+  // Add to a counter that resets at resetAt (ms since epoch); returns the new total
+  addUsage(key: string, amount: number, resetAt: number, now: number): Promise<number>;
+  getUsage(key: string, now: number): Promise<number>;
+}
+
+export type RateLimitStoreName = "memory";
+
+export type LimitScope = "ip" | "session" | "daily_tokens" | "ip_daily_tokens";
+
+export interface LimitExceeded {
+  scope: LimitScope;
+  retryAfterMs: number;
+}
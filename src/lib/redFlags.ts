@@ -0,0 +1,145 @@
+/**
+ * Red-Flag Emergency Detector
+ *
+ * Local keyword matcher for symptoms that need emergency care. Runs on the
+ * latest user message before the model is called, so emergency handling does
+ * not depend on the model choosing emergency mode, and still works when the
+ * provider is down. Each rule lists groups of patterns: every group must
+ * match, and a group matches when any one of its patterns does.
+ *
+ * Patterns describe something happening now ("my throat is closing"), not the
+ * topic ("what is anaphylaxis?"), because a match overrides the model.
+ */
+
+import type { AIResponse } from "./buildFinalUI";
+
+export interface RedFlagRule {
+  id: string;
+  // Human-readable trigger, used in applied_rules and the debug panel
+  label: string;
+  requires: RegExp[][];
+  // Emergency alert and CTA used when the model's own content is not emergency-level
+  message: string;
+  cta: string;
+}
+
+export interface RedFlagMatch {
+  id: string;
+  label: string;
+  message: string;
+  cta: string;
+}
+
+const CHEST_PAIN = [/chest (pain|hurts?|tightness|pressure)/, /pain in (my|the|his|her|their) chest/, /heart attack/];
+const RADIATING = [/\barms?\b/, /\bjaw\b/, /\bshoulder/, /radiat/, /spreading/];
+
+export const RED_FLAG_RULES: RedFlagRule[] = [
+  {
+    id: "cardiac",
+    label: "Chest pain radiating to the arm or jaw",
+    requires: [CHEST_PAIN, RADIATING],
+    message: "Chest pain that spreads to your arm, jaw or shoulder can be a sign of a heart attack. Call emergency services now. Do not drive yourself.",
+    cta: "Call emergency services",
+  },
+  {
+    id: "breathing",
+    label: "Difficulty breathing",
+    requires: [[/can'?t breathe/, /cannot breathe/, /unable to breathe/, /struggling to breathe/, /gasping for (air|breath)/]],
+    message: "Severe difficulty breathing needs emergency care. Call emergency services now.",
+    cta: "Call emergency services",
+  },
+  {
+    id: "stroke",
+    label: "Stroke warning signs (FAST)",
+    requires: [[
+      /face (is |was )?(drooping|droopy|numb)/,
+      /(drooping|droopy) (face|mouth|smile|eyelid)/,
+      /slurr(ed|ing) (speech|words|my words)/,
+      /can'?t (speak|talk|get (my|the) words out)/,
+      /(weak(ness)?|numb(ness)?) (on|in|down) one side/,
+      /one side of (my|his|her|their) (face|body)/,
+      /(having|had) a stroke/,
+    ]],
+    message: "Face drooping, arm weakness or trouble speaking can be signs of a stroke. Call emergency services now and note the time symptoms started.",
+    cta: "Call emergency services",
+  },
+  {
+    id: "suicidal_ideation",
+    label: "Thoughts of suicide or self-harm",
+    requires: [[
+      /suicidal/,
+      /kill(ing)? myself/,
+      /end(ing)? my (own )?life/,
+      /take my (own )?life/,
+      /(want|wanting) to die/,
+      /hurt(ing)? myself/,
+      /self[- ]?harm(ing)?/,
+    ]],
+    message: "You don't have to go through this alone. If you are in danger, call emergency services. You can call or text 988 any time to reach the Suicide Crisis Helpline.",
+    cta: "Call or text 988",
+  },
+  {
+    id: "anaphylaxis",
+    label: "Possible anaphylaxis",
+    requires: [[
+      /throat (is |feels )?(closing|swelling|swollen|tight)/,
+      /(tongue|lips) (is |are )?(swelling|swollen)/,
+      /swollen (throat|tongue)/,
+      /anaphylactic (shock|reaction)/,
+      /(having|going into) anaphylaxis/,
+    ]],
+    message: "Swelling of the throat or tongue can be a severe allergic reaction. Use an epinephrine auto-injector if you have one and call emergency services now.",
+    cta: "Call emergency services",
+  },
+  {
+    id: "overdose",
+    label: "Possible overdose",
+    requires: [[/overdosed/, /took (too many|an overdose|a lot of|a whole)/, /swallowed (a|the|half the|the whole) (bottle|pack)/]],
+    message: "Taking too much of a medication can be dangerous even if you feel fine. Call emergency services or Poison Control now.",
+    cta: "Call emergency services",
+  },
+  {
+    id: "unresponsive",
+    label: "Loss of consciousness or seizure",
+    requires: [[/unconscious/, /unresponsive/, /not breathing/, /won'?t wake up/, /having a seizure/]],
+    message: "Someone who is unresponsive, not breathing or having a seizure needs emergency care. Call emergency services now.",
+    cta: "Call emergency services",
+  },
+];
+
+/**
+ * Return every red-flag rule matched by the text, in rule order.
+ */
+export function detectRedFlags(text: string, rules: RedFlagRule[] = RED_FLAG_RULES): RedFlagMatch[] {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+
+  return rules
+    .filter((rule) => rule.requires.every((group) => group.some((pattern) => pattern.test(normalized))))
+    .map(({ id, label, message, cta }) => ({ id, label, message, cta }));
+}
+
+/**
+ * Escalate a response to emergency mode for a red flag.
+ * Content from a response the model already triaged as an emergency is kept;
+ * otherwise the alert and CTA are replaced with the rule's own.
+ */
+export function forceEmergency(response: AIResponse, redFlag: RedFlagMatch): AIResponse {
+  const { intent_detection, ux_mode, response_content } = response;
+  const modelAgreed = ux_mode.mode === "emergency";
+
+  return {
+    intent_detection: {
+      ...intent_detection,
+      primary_intent: "Triage (Urgent)",
+      risk_level: "high",
+    },
+    ux_mode: modelAgreed ? ux_mode : { mode: "emergency", reason: `Red flag: ${redFlag.label}` },
+    response_content: {
+      ...response_content,
+      safety_alert: response_content.safety_alert?.level === "emergency"
+        ? response_content.safety_alert
+        : { level: "emergency", title: "Get emergency help now", message: redFlag.message },
+      cta: modelAgreed && response_content.cta ? response_content.cta : { primary: redFlag.cta },
+    },
+  };
+}
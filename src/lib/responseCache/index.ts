@@ -0,0 +1,104 @@
+/**
+ * Response Cache
+ *
+ * First-turn answers are reused for repeated questions, from environment config:
+ *
+ * - RESPONSE_CACHE: 0 turns the cache off
+ * - RESPONSE_CACHE_STORE: memory (default)
+ * - RESPONSE_CACHE_TTL_SECONDS: how long an answer is reused (default 3600)
+ * - RESPONSE_CACHE_MAX_ENTRIES: least recently used entries are evicted past this (default 500)
+ *
+ * One store is shared by every request in the process.
+ */
+
+import { createMemoryResponseCache } from "./memory";
+import { CacheEntry, CacheInvalidation, ResponseCacheStore, ResponseCacheStoreName } from "./types";
+
+export * from "./types";
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_MAX_ENTRIES = 500;
+
+let store: ResponseCacheStore | null = null;
+
+export function getResponseCache(env: NodeJS.ProcessEnv = process.env): ResponseCacheStore {
+  if (store) return store;
+
+  const name = (env.RESPONSE_CACHE_STORE || "memory") as ResponseCacheStoreName;
+  switch (name) {
+    case "memory":
+      store = createMemoryResponseCache(Number(env.RESPONSE_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES);
+      break;
+    default:
+      throw new Error(`Unknown RESPONSE_CACHE_STORE "${name}"`);
+  }
+  return store;
+}
+
+export function isResponseCacheEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.RESPONSE_CACHE !== "0";
+}
+
+function getTtlMs(env: NodeJS.ProcessEnv = process.env): number {
+  return (Number(env.RESPONSE_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Fold away differences that don't change the question: case, punctuation,
+ * curly quotes and spacing. "Can I take ibuprofen while breastfeeding?" and
+ * "can i take ibuprofen while breastfeeding" share an entry.
+ */
+export function normalizeQuestion(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^\p{L}\p{N}\s']/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function responseCacheKey(question: string, promptVersion: string, model: string): string {
+  return JSON.stringify([promptVersion, model, normalizeQuestion(question)]);
+}
+
+/**
+ * Look up a question. Expired entries are treated as missing.
+ */
+export async function getCachedResponse(
+  question: string,
+  promptVersion: string,
+  model: string,
+  now: number = Date.now()
+): Promise<CacheEntry | null> {
+  return getResponseCache().get(responseCacheKey(question, promptVersion, model), now);
+}
+
+export async function cacheResponse(
+  question: string,
+  promptVersion: string,
+  model: string,
+  payload: unknown,
+  now: number = Date.now()
+): Promise<void> {
+  await getResponseCache().set({
+    key: responseCacheKey(question, promptVersion, model),
+    question: normalizeQuestion(question),
+    promptVersion,
+    model,
+    payload,
+    storedAt: now,
+    expiresAt: now + getTtlMs(),
+  });
+}
+
+/**
+ * Remove cached answers, e.g. after the corpus or a safety rule changes.
+ * The question is normalized the same way as on lookup.
+ */
+export async function invalidateResponses(filter: CacheInvalidation): Promise<number> {
+  return getResponseCache().invalidate({
+    ...filter,
+    ...(filter.question !== undefined && { question: normalizeQuestion(filter.question) }),
+  });
+}
@@ -0,0 +1,40 @@
+import { CacheEntry, ResponseCacheStore } from "./types";
+
+/**
+ * Process-local store, emptied on restart. Reads move an entry to the end of
+ * the map, so the least recently used entry is evicted once the limit is reached.
+ */
+export function createMemoryResponseCache(maxEntries: number = 500): ResponseCacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    name: "memory",
+
+    async get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      entries.delete(key);
+      if (entry.expiresAt <= now) return null;
+      entries.set(key, entry);
+      return entry;
+    },
+
+    async set(entry) {
+      entries.delete(entry.key);
+      entries.set(entry.key, entry);
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+
+    async invalidate({ question, promptVersion, model }) {
+      let removed = 0;
+      for (const [key, entry] of entries) {
+        if (question !== undefined && entry.question !== question) continue;
+        if (promptVersion !== undefined && entry.promptVersion !== promptVersion) continue;
+        if (model !== undefined && entry.model !== model) continue;
+        entries.delete(key);
+        removed++;
+      }
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Response Cache Types
+ *
+ * Finished responses to first questions, stored under the normalized
+ * question, prompt version and model that produced them, so a repeated
+ * question (a test scenario, a common question) skips the provider.
+ */
+
+export interface CacheEntry {
+  key: string;
+  // Normalized, as used in the key
+  question: string;
+  promptVersion: string;
+  model: string;
+  // The response body as first sent; a hit replaces its session id and cache status
+  payload: unknown;
+  // ms since epoch
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Any combination narrows what is removed; an empty filter removes everything
+export interface CacheInvalidation {
+  question?: string;
+  promptVersion?: string;
+  model?: string;
+}
+
+export interface ResponseCacheStore {
+  name: string;
+  // The entry for the key, unless it has expired
+  get(key: string, now: number): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+  // Returns how many entries were removed
+  invalidate(filter: CacheInvalidation): Promise<number>;
+}
+
+export type ResponseCacheStoreName = "memory";
+
+/**
+ * Why a request was not looked up in the cache:
+ * - disabled: RESPONSE_CACHE=0
+ * - follow_up: not the first turn, so the answer depends on the conversation
+ * - red_flag: emergency detection fired; those answers are always generated
+ * - personal_details: the message contained details that were redacted
+ */
+export type CacheBypassReason = "disabled" | "follow_up" | "red_flag" | "personal_details";
+
+// Reported in debug.cache
+export type CacheStatus =
+  | { status: "hit"; ageMs: number }
+  | { status: "miss" }
+  | { status: "bypass"; reason: CacheBypassReason };
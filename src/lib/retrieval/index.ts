@@ -0,0 +1,158 @@
+/**
+ * Retrieval-Augmented Sources
+ *
+ * Grounds answers in a local curated corpus instead of the model's memory:
+ *
+ * - retrievePassages: BM25 search over the corpus for the user's question
+ * - formatRetrievedContext: prompt block listing passages by article id
+ * - attachRetrievedSources: turns [article-id] markers into [n] and builds
+ *   the sources list from the cited corpus records
+ *
+ * The model never writes URLs, so every source links to a vetted article.
+ * Set RAG_ENABLED=0 to fall back to model-written sources.
+ */
+
+import type { AIResponse, SourceContent } from "../buildFinalUI";
+import { searchLexicalIndex } from "./lexicalIndex";
+import { getArticle, loadIndex } from "./store";
+import { RetrievedPassage } from "./types";
+
+export * from "./types";
+export { CORPUS, getArticle } from "./store";
+
+export const DEFAULT_PASSAGE_LIMIT = 4;
+
+// At most this many passages from one article, so one topic can't crowd out the rest
+const PASSAGES_PER_ARTICLE = 2;
+
+export function isRetrievalEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.RAG_ENABLED !== "0";
+}
+
+/**
+ * Find the corpus passages that best match a query.
+ */
+export async function retrievePassages(query: string, limit: number = DEFAULT_PASSAGE_LIMIT): Promise<RetrievedPassage[]> {
+  const index = await loadIndex();
+  const passages: RetrievedPassage[] = [];
+  const perArticle = new Map<string, number>();
+
+  // Over-fetch so the per-article cap still leaves enough passages
+  for (const { position, score } of searchLexicalIndex(index, query, limit * PASSAGES_PER_ARTICLE * 2)) {
+    const { articleId, chunk } = index.chunks[position];
+    const article = getArticle(articleId);
+    const count = perArticle.get(articleId) ?? 0;
+    if (!article || count >= PASSAGES_PER_ARTICLE) continue;
+
+    perArticle.set(articleId, count + 1);
+    passages.push({
+      articleId,
+      title: article.title,
+      site_name: article.site_name,
+      chunk,
+      text: article.chunks[chunk],
+      score: Math.round(score * 100) / 100,
+    });
+    if (passages.length === limit) break;
+  }
+
+  return passages;
+}
+
+/**
+ * Prompt block with the retrieved passages, grouped by article.
+ * Replaces the lite prompt's instructions for numbering and writing sources.
+ */
+export function formatRetrievedContext(passages: RetrievedPassage[]): string {
+  if (passages.length === 0) {
+    return `
+
+## RETRIEVED DOCUMENTS
+No documents in the library match this question. Do NOT include citation markers or a sources array.
+`;
+  }
+
+  const articleIds = [...new Set(passages.map((p) => p.articleId))];
+  const documents = articleIds.map((id) => {
+    const texts = passages.filter((p) => p.articleId === id).map((p) => p.text);
+    return `### [${id}] ${passages.find((p) => p.articleId === id)!.title} (${getArticle(id)!.site_name})\n${texts.join("\n")}`;
+  });
+
+  return `
+
+## RETRIEVED DOCUMENTS
+Base your answer on these documents from the vetted library. Cite them by id in square brackets, e.g. [${articleIds[0]}], instead of [1], [2].
+Do NOT output a sources array; it is built from the documents you cite. Only cite ids listed here.
+
+${documents.join("\n\n")}
+`;
+}
+
+export interface AttachedSources {
+  response: AIResponse;
+  // Cited article ids, in source order
+  cited: string[];
+  applied: string[];
+}
+
+// One or more comma-separated ids, or a number: [fatigue], [fatigue, dehydration], [1]
+const ID_MARKER = /\s*\[([a-z0-9]+(?:-[a-z0-9]+)*(?:\s*,\s*[a-z0-9]+(?:-[a-z0-9]+)*)*)\]/g;
+
+/**
+ * Number id citations in order of first use and replace the model's sources
+ * with the cited corpus records. Markers for ids that were not retrieved, and
+ * numbered markers the model was told not to use, are stripped. Only string
+ * fields are touched, so it is also safe on a partially streamed response.
+ */
+export function attachRetrievedSources(response: AIResponse, passages: RetrievedPassage[]): AttachedSources {
+  const retrieved = new Set(passages.map((p) => p.articleId));
+  const cited: string[] = [];
+  const stripped = new Set<string>();
+
+  const rewrite = (text: string): string =>
+    text.replace(ID_MARKER, (marker, ids: string) => {
+      const whitespace = marker.slice(0, marker.indexOf("["));
+      const numbers = ids.split(/\s*,\s*/).flatMap((id) => {
+        if (!retrieved.has(id)) {
+          stripped.add(id);
+          return [];
+        }
+        if (!cited.includes(id)) cited.push(id);
+        return [`[${cited.indexOf(id) + 1}]`];
+      });
+      return numbers.length ? whitespace + numbers.join(" ") : "";
+    });
+
+  const content = { ...response.response_content };
+  if (typeof content.summary === "string") {
+    content.summary = rewrite(content.summary);
+  }
+  if (content.checklist && Array.isArray(content.checklist.items)) {
+    content.checklist = {
+      ...content.checklist,
+      items: content.checklist.items.map((item) => (typeof item === "string" ? rewrite(item) : item)),
+    };
+  }
+
+  const sources: SourceContent[] = cited.map((id) => {
+    const { title, site_name, url, description } = getArticle(id)!;
+    return { title, site_name, url, description };
+  });
+  if (sources.length) {
+    content.sources = sources;
+  } else {
+    delete content.sources;
+  }
+
+  const applied: string[] = [];
+  if (response.response_content.sources?.length) {
+    applied.push(`Model sources replaced by corpus records (${sources.length} cited)`);
+  } else if (sources.length) {
+    applied.push(`Sources built from corpus: ${cited.join(", ")}`);
+  }
+  for (const id of stripped) {
+    applied.push(`Citation [${id}] stripped: ${/^\d+$/.test(id) ? "numbered marker" : "not a retrieved document"}`);
+  }
+
+  return { response: { ...response, response_content: content }, cited, applied };
+}
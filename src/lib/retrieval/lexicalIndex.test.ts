@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildLexicalIndex, searchLexicalIndex } from "./lexicalIndex";
+import { CorpusArticle } from "./types";
+
+const ARTICLES: CorpusArticle[] = [
+  {
+    id: "headache",
+    title: "Headache relief",
+    site_name: "NHS",
+    url: "https://www.nhs.uk/conditions/headaches/",
+    description: "",
+    chunks: ["Rest and drink water for a tension headache.", "See a GP if headaches keep coming back."],
+  },
+  {
+    id: "blood-pressure",
+    title: "Blood pressure monitors",
+    site_name: "NHS",
+    url: "https://www.nhs.uk/conditions/high-blood-pressure/",
+    description: "",
+    chunks: ["The constructor of a monitor lists how to check its accuracy."],
+  },
+];
+
+const index = buildLexicalIndex(ARTICLES, "test");
+
+describe("searchLexicalIndex", () => {
+  it("ranks the chunk that shares the most terms first", () => {
+    const [best] = searchLexicalIndex(index, "tension headache", 3);
+    expect(index.chunks[best.position]).toMatchObject({ articleId: "headache", chunk: 0 });
+  });
+
+  it("returns nothing when no terms match", () => {
+    expect(searchLexicalIndex(index, "sunburn", 3)).toEqual([]);
+  });
+
+  it("treats Object.prototype keys as ordinary terms", () => {
+    const withoutTerm = buildLexicalIndex([ARTICLES[0]], "test");
+    expect(searchLexicalIndex(withoutTerm, "Does a constructor help a headache?", 3)).toHaveLength(2);
+
+    const [match] = searchLexicalIndex(index, "Does a blood pressure constructor help?", 3);
+    expect(index.chunks[match.position].articleId).toBe("blood-pressure");
+  });
+
+  it("searches an index read back from its JSON cache", () => {
+    const cached = JSON.parse(JSON.stringify(index));
+    expect(searchLexicalIndex(cached, "constructor", 3)).toHaveLength(1);
+    expect(searchLexicalIndex(JSON.parse(JSON.stringify(buildLexicalIndex([ARTICLES[0]], "test"))), "constructor", 3)).toEqual([]);
+  });
+});
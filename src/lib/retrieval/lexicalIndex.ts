@@ -0,0 +1,103 @@
+/**
+ * Lexical Index
+ *
+ * BM25 over corpus chunks. Small enough to serialize as JSON and score in
+ * process, so retrieval works offline with no embedding model or vector store.
+ */
+
+import { CorpusArticle, LexicalIndex } from "./types";
+
+export const INDEX_VERSION = 1;
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "about", "after", "all", "am", "an", "and", "any", "are", "as", "at", "be", "been", "before",
+  "but", "by", "can", "could", "did", "do", "does", "doing", "for", "from", "get", "had", "has",
+  "have", "how", "i", "if", "in", "into", "is", "it", "its", "just", "me", "my", "no", "not", "of",
+  "on", "or", "our", "should", "so", "some", "than", "that", "the", "their", "them", "then", "there",
+  "these", "they", "this", "to", "too", "up", "very", "was", "we", "what", "when", "which", "while",
+  "who", "why", "will", "with", "would", "you", "your",
+]);
+
+// Crude suffix stripping so "dizzy"/"dizziness" and "infection"/"infections" meet
+function stem(token: string): string {
+  if (token.length <= 4) return token;
+  for (const suffix of ["iness", "ness", "ing", "ies", "ed", "es", "s", "y"]) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= 3) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+}
+
+/**
+ * Split text into normalized terms, dropping stopwords.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem);
+}
+
+/**
+ * Build an index over every chunk of every article. Titles are indexed with
+ * each chunk so a passage matches on what its article is about.
+ */
+export function buildLexicalIndex(articles: CorpusArticle[], corpusHash: string): LexicalIndex {
+  // No prototype, so terms like "constructor" are ordinary keys
+  const postings: LexicalIndex["postings"] = Object.create(null);
+  const index: LexicalIndex = { version: INDEX_VERSION, corpusHash, averageLength: 0, chunks: [], postings };
+  let totalLength = 0;
+
+  for (const article of articles) {
+    article.chunks.forEach((text, chunk) => {
+      const terms = tokenize(`${article.title} ${text}`);
+      const position = index.chunks.length;
+      index.chunks.push({ articleId: article.id, chunk, length: terms.length });
+      totalLength += terms.length;
+
+      const frequencies = new Map<string, number>();
+      for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+      for (const [term, frequency] of frequencies) {
+        (index.postings[term] ??= []).push([position, frequency]);
+      }
+    });
+  }
+
+  index.averageLength = index.chunks.length ? totalLength / index.chunks.length : 0;
+  return index;
+}
+
+/**
+ * Score chunks against a query and return the best, highest first.
+ * Chunks sharing no terms with the query are never returned.
+ */
+export function searchLexicalIndex(
+  index: LexicalIndex,
+  query: string,
+  limit: number
+): Array<{ position: number; score: number }> {
+  const scores = new Map<number, number>();
+  const total = index.chunks.length;
+
+  for (const term of new Set(tokenize(query))) {
+    // A cached index comes back from JSON as a plain object, so only own keys count
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const postings = index.postings[term];
+    const idf = Math.log(1 + (total - postings.length + 0.5) / (postings.length + 0.5));
+
+    for (const [position, frequency] of postings) {
+      const lengthRatio = index.chunks[position].length / (index.averageLength || 1);
+      const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * lengthRatio));
+      scores.set(position, (scores.get(position) ?? 0) + score);
+    }
+  }
+
+  return [...scores]
+    .map(([position, score]) => ({ position, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,65 @@
+/**
+ * Corpus and Index Storage
+ *
+ * The corpus ships with the app (src/data/corpus). Its index is cached on
+ * disk at CORPUS_INDEX_PATH (default .cache/corpus-index.json) and rebuilt
+ * whenever the corpus changes, so editing an article needs no build step.
+ * A read-only filesystem only costs the cache: the index is still built in
+ * memory.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import articles from "@/data/corpus/articles.json";
+import { buildLexicalIndex, INDEX_VERSION } from "./lexicalIndex";
+import { CorpusArticle, LexicalIndex } from "./types";
+
+const DEFAULT_INDEX_PATH = ".cache/corpus-index.json";
+
+export const CORPUS: CorpusArticle[] = articles;
+
+const CORPUS_BY_ID = new Map(CORPUS.map((article) => [article.id, article]));
+
+export function getArticle(id: string): CorpusArticle | undefined {
+  return CORPUS_BY_ID.get(id);
+}
+
+function hashCorpus(corpus: CorpusArticle[]): string {
+  return createHash("sha256").update(JSON.stringify(corpus)).digest("hex");
+}
+
+async function readIndex(file: string, corpusHash: string): Promise<LexicalIndex | null> {
+  try {
+    const index = JSON.parse(await fs.readFile(file, "utf8")) as LexicalIndex;
+    return index.version === INDEX_VERSION && index.corpusHash === corpusHash ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+let cached: Promise<LexicalIndex> | null = null;
+
+/**
+ * Load the index once per process, rebuilding it if the cached file is
+ * missing, unreadable or built from a different corpus.
+ */
+export function loadIndex(env: NodeJS.ProcessEnv = process.env): Promise<LexicalIndex> {
+  cached ??= (async () => {
+    const file = path.resolve(env.CORPUS_INDEX_PATH || DEFAULT_INDEX_PATH);
+    const corpusHash = hashCorpus(CORPUS);
+
+    const existing = await readIndex(file, corpusHash);
+    if (existing) return existing;
+
+    const index = buildLexicalIndex(CORPUS, corpusHash);
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(index));
+    } catch (error) {
+      console.warn("Corpus index not cached:", error);
+    }
+    return index;
+  })();
+  return cached;
+}
@@ -0,0 +1,43 @@
+/**
+ * Retrieval Types
+ *
+ * A curated article is split into chunks ahead of time; the index scores
+ * chunks, and a retrieved passage points back at its article so sources can
+ * be built from the record rather than from anything the model wrote.
+ */
+
+export interface CorpusArticle {
+  // Stable id the model cites, e.g. [ibuprofen-breastfeeding]
+  id: string;
+  title: string;
+  site_name: string;
+  url: string;
+  description: string;
+  chunks: string[];
+}
+
+export interface IndexedChunk {
+  articleId: string;
+  chunk: number;
+  // Token count, for BM25 length normalization
+  length: number;
+}
+
+export interface LexicalIndex {
+  version: number;
+  // Hash of the corpus the index was built from; a mismatch means rebuild
+  corpusHash: string;
+  averageLength: number;
+  chunks: IndexedChunk[];
+  // term -> [chunk position, term frequency] pairs
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface RetrievedPassage {
+  articleId: string;
+  title: string;
+  site_name: string;
+  chunk: number;
+  text: string;
+  score: number;
+}
@@ -0,0 +1,78 @@
+/**
+ * Citation Integrity
+ *
+ * CitationText maps [n] to sources[n-1], so markers have to agree with the
+ * sources list that is actually rendered. The model numbers markers against
+ * its own list, which the rules may truncate, block or reorder. This pass
+ * renumbers markers to the final list, strips markers whose source is gone or
+ * never existed, and flags rendered sources that nothing cites.
+ */
+
+import type { ChecklistContent, SourceContent, UIComponent } from "../buildFinalUI";
+
+export interface CitationReport {
+  renumbered: Array<{ from: number; to: number }>;
+  stripped: Array<{ marker: number; reason: "out_of_range" | "orphaned" }>;
+  // 1-based positions in the final sources list
+  uncited: number[];
+}
+
+const MARKER = /\s*\[(\d+)\]/g;
+
+/**
+ * Rewrite citation markers in text components to match the rendered sources.
+ * @param components - Final UI components, updated in place
+ * @param modelSources - Sources as the model numbered them
+ */
+export function reconcileCitations(components: UIComponent[], modelSources: SourceContent[] = []): CitationReport {
+  const sourcesComponent = components.find((c) => c.type === "sources");
+  const finalSources = (sourcesComponent?.content as SourceContent[] | undefined) ?? [];
+
+  const report: CitationReport = { renumbered: [], stripped: [], uncited: [] };
+  const cited = new Set<number>();
+
+  const rewrite = (text: string): string =>
+    text.replace(MARKER, (marker, digits: string) => {
+      const from = Number(digits);
+      const source = modelSources[from - 1];
+      const to = source ? finalSources.findIndex((s) => s.url === source.url) + 1 : 0;
+
+      if (to === 0) {
+        const reason = source ? "orphaned" : "out_of_range";
+        if (!report.stripped.some((s) => s.marker === from)) report.stripped.push({ marker: from, reason });
+        return "";
+      }
+      if (to !== from && !report.renumbered.some((r) => r.from === from)) {
+        report.renumbered.push({ from, to });
+      }
+      cited.add(to);
+      return marker.replace(digits, String(to));
+    });
+
+  for (const component of components) {
+    if (component.type === "summary" && typeof component.content === "string") {
+      component.content = rewrite(component.content);
+    } else if (component.type === "checklist") {
+      const checklist = component.content as ChecklistContent;
+      component.content = { ...checklist, items: checklist.items.map(rewrite) };
+    }
+  }
+
+  report.uncited = finalSources.map((_, i) => i + 1).filter((n) => !cited.has(n));
+  return report;
+}
+
+/**
+ * Summarize a report as applied_rules entries. Uncited sources are only
+ * reported in debug output, since a later pass may change the sources list.
+ */
+export function describeCitationReport(report: CitationReport): string[] {
+  const rules: string[] = [];
+  for (const { from, to } of report.renumbered) {
+    rules.push(`Citation [${from}] renumbered to [${to}]`);
+  }
+  for (const { marker, reason } of report.stripped) {
+    rules.push(`Citation [${marker}] stripped: ${reason === "orphaned" ? "source not shown" : "no such source"}`);
+  }
+  return rules;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { ResponseContent } from "../buildFinalUI";
+import { evaluateRules } from "./engine";
+import { RuleFacts, UIRule } from "./types";
+
+const FACTS: RuleFacts = {
+  mode: "informational",
+  risk: "low",
+  intent: "General Information",
+  emergency: false,
+  triage: false,
+  clarifyingLimitReached: false,
+  redFlag: null,
+};
+
+const CONTENT: ResponseContent = {
+  summary: "Rest and drink water.",
+  safety_alert: { level: "caution", message: "See a GP if it lasts." },
+  checklist: { heading: "Try this", items: ["Rest", "Fluids", "Sleep"] },
+  cta: { primary: "Call 111", secondary: "Find a pharmacy" },
+};
+
+const types = (rules: UIRule[], content: ResponseContent = CONTENT, facts: RuleFacts = FACTS) =>
+  evaluateRules(content, facts, rules).components.map((c) => c.type);
+
+describe("evaluateRules", () => {
+  it("orders components by the rules that placed them", () => {
+    const rules: UIRule[] = [
+      { id: "cta", actions: [{ type: "place", component: "cta" }] },
+      { id: "summary", actions: [{ type: "place", component: "summary" }] },
+      { id: "summary-again", actions: [{ type: "place", component: "summary" }] },
+    ];
+    expect(types(rules)).toEqual(["cta", "summary"]);
+  });
+
+  it("never renders a blocked component, even one placed earlier", () => {
+    const result = evaluateRules(CONTENT, FACTS, [
+      { id: "summary", actions: [{ type: "place", component: "summary" }] },
+      { id: "no-summary", actions: [{ type: "block", component: "summary" }] },
+    ]);
+    expect(result.components).toEqual([]);
+    expect(result.blocked).toEqual(["summary"]);
+  });
+
+  it("tests `present` against the content left by earlier rules", () => {
+    const rules: UIRule[] = [
+      { id: "no-checklist", actions: [{ type: "block", component: "checklist" }] },
+      { id: "summary", when: { present: ["checklist"] }, actions: [{ type: "place", component: "summary" }] },
+      { id: "cta", when: { present: ["cta.secondary"] }, actions: [{ type: "place", component: "cta" }] },
+    ];
+    expect(types(rules)).toEqual(["cta"]);
+  });
+
+  it("truncates lists and skips placing them below minItems", () => {
+    const rules: UIRule[] = [
+      { id: "checklist", actions: [{ type: "truncate", component: "checklist", max: 1 }, { type: "place", component: "checklist", minItems: 2 }] },
+    ];
+    expect(types(rules)).toEqual([]);
+
+    const [checklist] = evaluateRules(CONTENT, FACTS, [
+      { id: "checklist", actions: [{ type: "truncate", component: "checklist", max: 2 }, { type: "place", component: "checklist" }] },
+    ]).components;
+    expect(checklist.content).toEqual({ heading: "Try this", items: ["Rest", "Fluids"] });
+  });
+
+  it("strips a field without changing the model's content", () => {
+    const [cta] = evaluateRules(CONTENT, FACTS, [
+      { id: "cta", actions: [{ type: "strip", component: "cta", field: "secondary" }, { type: "place", component: "cta" }] },
+    ]).components;
+    expect(cta.content).toEqual({ primary: "Call 111" });
+    expect(CONTENT.cta?.secondary).toBe("Find a pharmacy");
+  });
+
+  it("matches every condition property", () => {
+    const place: UIRule["actions"] = [{ type: "place", component: "summary" }];
+    const matching = (when: UIRule["when"], facts: Partial<RuleFacts> = {}) =>
+      types([{ id: "rule", when, actions: place }], CONTENT, { ...FACTS, ...facts }).length === 1;
+
+    expect(matching({ modes: ["informational"] })).toBe(true);
+    expect(matching({ modes: ["emergency"] })).toBe(false);
+    expect(matching({ riskLevels: ["high"] }, { risk: "high" })).toBe(true);
+    expect(matching({ intents: ["Triage (Urgent)"] })).toBe(false);
+    expect(matching({ emergency: true }, { emergency: true })).toBe(true);
+    expect(matching({ triage: true })).toBe(false);
+    expect(matching({ redFlag: false })).toBe(true);
+    expect(matching({ clarifyingLimitReached: true })).toBe(false);
+    expect(matching({ alertLevels: ["caution"] })).toBe(true);
+    expect(matching({ alertLevels: ["informational"] })).toBe(false);
+    expect(matching({ present: ["summary", "cta.primary"] })).toBe(true);
+    expect(matching({ present: ["clarifying_question"] })).toBe(false);
+  });
+
+  it("traces a rule only when it took effect, filling in placeholders", () => {
+    const { applied } = evaluateRules(CONTENT, FACTS, [
+      { id: "note", actions: [], trace: "Always noted" },
+      { id: "alert", actions: [{ type: "place", component: "safety_alert" }], trace: "Alert ({level})" },
+      { id: "alert-again", actions: [{ type: "place", component: "safety_alert" }], trace: "Alert again" },
+      { id: "checklist", actions: [{ type: "place", component: "checklist" }], trace: "Checklist ({count} items)" },
+      { id: "sources", actions: [{ type: "place", component: "sources" }], trace: "Sources" },
+    ]);
+    expect(applied).toEqual(["Always noted", "Alert (caution)", "Checklist (3 items)"]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * UI Rules Engine
+ *
+ * Evaluates an ordered rule set against a response. Rules run top to bottom on
+ * a working copy of response_content, so a component blocked by an earlier
+ * rule is no longer "present" for later ones. Placed components are built from
+ * the final content, in the order they were placed, and their citation
+ * markers are then reconciled with the sources that made it through.
+ */
+
+import type { ResponseContent, UIComponent } from "../buildFinalUI";
+import { CitationReport, describeCitationReport, reconcileCitations } from "./citations";
+import { ContentField, ContentPath, RuleAction, RuleCondition, RuleFacts, UIRule } from "./types";
+
+export interface RuleEvaluation {
+  components: UIComponent[];
+  blocked: string[];
+  applied: string[];
+  citations: CitationReport;
+}
+
+type Content = Record<string, unknown>;
+
+function readPath(content: Content, path: ContentPath): unknown {
+  const [field, key] = path.split(".");
+  const value = content[field];
+  if (key === undefined) return value;
+  return value && typeof value === "object" ? (value as Content)[key] : undefined;
+}
+
+function countItems(content: Content, component: ContentField): number | undefined {
+  const value = content[component];
+  if (Array.isArray(value)) return value.length;
+  if (value && typeof value === "object" && Array.isArray((value as Content).items)) {
+    return ((value as Content).items as unknown[]).length;
+  }
+  return undefined;
+}
+
+function matches(when: RuleCondition | undefined, facts: RuleFacts, content: Content): boolean {
+  if (!when) return true;
+  const alertLevel = (content.safety_alert as ResponseContent["safety_alert"])?.level;
+
+  return (
+    (!when.modes || when.modes.includes(facts.mode)) &&
+    (!when.riskLevels || when.riskLevels.includes(facts.risk)) &&
+    (!when.intents || when.intents.includes(facts.intent)) &&
+    (when.emergency === undefined || when.emergency === facts.emergency) &&
+    (when.triage === undefined || when.triage === facts.triage) &&
+    (when.redFlag === undefined || when.redFlag === !!facts.redFlag) &&
+    (when.clarifyingLimitReached === undefined || when.clarifyingLimitReached === facts.clarifyingLimitReached) &&
+    (!when.alertLevels || (!!alertLevel && when.alertLevels.includes(alertLevel))) &&
+    (!when.present || when.present.every((path) => readPath(content, path) !== undefined))
+  );
+}
+
+/**
+ * Evaluate rules in order and return the placed components with their trace.
+ */
+export function evaluateRules(
+  responseContent: ResponseContent,
+  facts: RuleFacts,
+  rules: UIRule[]
+): RuleEvaluation {
+  const content: Content = { ...responseContent };
+  const placed: ContentField[] = [];
+  const blocked: string[] = [];
+  const applied: string[] = [];
+
+  // Apply one action; returns true if it changed anything
+  const apply = (action: RuleAction): boolean => {
+    const value = content[action.component];
+    if (value === undefined) return false;
+
+    switch (action.type) {
+      case "place": {
+        if (placed.includes(action.component)) return false;
+        if (action.minItems !== undefined && (countItems(content, action.component) ?? 0) < action.minItems) {
+          return false;
+        }
+        placed.push(action.component);
+        return true;
+      }
+      case "block": {
+        delete content[action.component];
+        blocked.push(action.component);
+        return true;
+      }
+      case "truncate": {
+        const count = countItems(content, action.component) ?? 0;
+        if (count <= action.max) return false;
+        content[action.component] = Array.isArray(value)
+          ? value.slice(0, action.max)
+          : { ...(value as Content), items: ((value as Content).items as unknown[]).slice(0, action.max) };
+        return true;
+      }
+      case "strip": {
+        if (typeof value !== "object" || (value as Content)[action.field] === undefined) return false;
+        const rest = { ...(value as Content) };
+        delete rest[action.field];
+        content[action.component] = rest;
+        return true;
+      }
+    }
+  };
+
+  for (const rule of rules) {
+    if (!matches(rule.when, facts, content)) continue;
+
+    // Every action runs, even after one has taken effect
+    const effects = rule.actions.map(apply);
+    const tookEffect = rule.actions.length === 0 || effects.includes(true);
+    if (!tookEffect || !rule.trace) continue;
+
+    const lastComponent = rule.actions[rule.actions.length - 1]?.component;
+    applied.push(
+      rule.trace
+        .replace("{level}", String((content.safety_alert as ResponseContent["safety_alert"])?.level))
+        .replace("{count}", String(lastComponent ? countItems(content, lastComponent) : ""))
+        .replace("{redFlag}", facts.redFlag?.label ?? "")
+    );
+  }
+
+  // Blocked components never render, even if an earlier rule placed them
+  const components = placed
+    .filter((field) => content[field] !== undefined)
+    .map((field) => ({ type: field, content: content[field] }));
+
+  const citations = reconcileCitations(components, responseContent.sources);
+  applied.push(...describeCitationReport(citations));
+
+  return { components, blocked, applied, citations };
+}
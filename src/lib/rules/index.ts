@@ -0,0 +1,13 @@
+/**
+ * Declarative UI Rules
+ *
+ * buildFinalUI evaluates UI_RULES (policy.ts) with the engine. To change what
+ * the UI shows, edit the policy; the engine has no product decisions in it.
+ */
+
+export * from "./types";
+export { evaluateRules } from "./engine";
+export type { RuleEvaluation } from "./engine";
+export { UI_RULES } from "./policy";
+export { reconcileCitations, describeCitationReport } from "./citations";
+export type { CitationReport } from "./citations";
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import type { ResponseContent } from "../buildFinalUI";
+import { evaluateRules } from "./engine";
+import { UI_RULES } from "./policy";
+import { RuleFacts } from "./types";
+
+const FACTS: RuleFacts = {
+  mode: "informational",
+  risk: "low",
+  intent: "General Information",
+  emergency: false,
+  triage: false,
+  clarifyingLimitReached: false,
+  redFlag: null,
+};
+
+const EMERGENCY: Partial<RuleFacts> = { mode: "emergency", risk: "high", emergency: true };
+
+const SUMMARY = "Rest and drink water.";
+const QUESTION = { question: "How long has it lasted?", options: ["Hours", "Days"] };
+const CHECKLIST = { heading: "Try this", items: ["Rest", "Fluids", "Sleep", "Dark room", "Cold compress", "Less screen time"] };
+const CTA = { primary: "Call 111", secondary: "Find a pharmacy" };
+const SOURCES = ["a", "b", "c", "d", "e"].map((id) => ({ title: id, site_name: "NHS", url: `https://www.nhs.uk/${id}` }));
+
+function run(content: ResponseContent, facts: Partial<RuleFacts> = {}) {
+  const result = evaluateRules(content, { ...FACTS, ...facts }, UI_RULES);
+  return {
+    ...result,
+    types: result.components.map((c) => c.type),
+    content: (type: string) => result.components.find((c) => c.type === type)?.content,
+  };
+}
+
+// Each rule registers its tests through ruleTest, so a rule added to the policy without one is caught below
+const tested = new Set<string>();
+function ruleTest(id: string, name: string, test: () => void) {
+  tested.add(id);
+  it(`${id}: ${name}`, test);
+}
+
+describe("UI_RULES", () => {
+  ruleTest("red-flag-forces-emergency", "names the red flag", () => {
+    const redFlag = { id: "chest-pain", label: "Chest pain", message: "", cta: "Call 999" };
+    expect(run({ summary: SUMMARY }, { ...EMERGENCY, redFlag }).applied).toContain('Red flag "Chest pain": emergency mode forced');
+    expect(run({ summary: SUMMARY }).applied.join()).not.toContain("Red flag");
+  });
+
+  ruleTest("clarifying-limit", "drops the question once the limit is reached", () => {
+    const result = run({ summary: SUMMARY, clarifying_question: QUESTION, checklist: CHECKLIST }, { clarifyingLimitReached: true });
+    expect(result.types).toEqual(["summary", "checklist"]);
+    expect(result.blocked).toEqual(["clarifying_question"]);
+    expect(result.applied).toContain("Clarifying question stripped: limit exceeded (2/2)");
+  });
+
+  ruleTest("emergency-suppression", "records that emergency mode is on", () => {
+    expect(run({ summary: SUMMARY }, EMERGENCY).applied[0]).toBe("Emergency mode: suppressing non-essential UI");
+    expect(run({ summary: SUMMARY }).applied).not.toContain("Emergency mode: suppressing non-essential UI");
+  });
+
+  ruleTest("urgent-alert-top", "puts caution and emergency alerts first", () => {
+    for (const level of ["caution", "emergency"] as const) {
+      const result = run({ summary: SUMMARY, safety_alert: { level, message: "Get help" } });
+      expect(result.types).toEqual(["safety_alert", "summary"]);
+      expect(result.applied).toContain(`Safety alert (${level}) placed at top`);
+    }
+  });
+
+  ruleTest("emergency-blocks-summary", "hides the summary in emergency mode", () => {
+    const result = run({ summary: SUMMARY, safety_alert: { level: "emergency", message: "Call 999" } }, EMERGENCY);
+    expect(result.types).toEqual(["safety_alert"]);
+    expect(result.blocked).toContain("summary");
+  });
+
+  ruleTest("summary", "places the summary", () => {
+    expect(run({ summary: SUMMARY }).types).toEqual(["summary"]);
+  });
+
+  ruleTest("informational-alert", "puts an informational alert after the summary", () => {
+    const result = run({ summary: SUMMARY, safety_alert: { level: "informational", message: "Good to know" } });
+    expect(result.types).toEqual(["summary", "safety_alert"]);
+    expect(result.applied).toContain("Informational alert placed below summary");
+  });
+
+  ruleTest("emergency-blocks-clarifying-question", "hides the question in emergency mode", () => {
+    const result = run({ summary: SUMMARY, clarifying_question: QUESTION }, EMERGENCY);
+    expect(result.types).not.toContain("clarifying_question");
+    expect(result.applied).toContain("Clarifying question suppressed (emergency mode)");
+  });
+
+  ruleTest("clarifying-question", "places the question after the summary", () => {
+    const result = run({ summary: SUMMARY, clarifying_question: QUESTION });
+    expect(result.types).toEqual(["summary", "clarifying_question"]);
+    expect(result.applied).toContain("Clarifying question included");
+  });
+
+  ruleTest("emergency-blocks-checklist", "hides the checklist in emergency mode", () => {
+    const result = run({ checklist: CHECKLIST }, EMERGENCY);
+    expect(result.types).toEqual([]);
+    expect(result.applied).toContain("Checklist suppressed (emergency mode)");
+  });
+
+  ruleTest("clarifying-question-blocks-checklist", "hides the checklist while a question is open", () => {
+    const result = run({ clarifying_question: QUESTION, checklist: CHECKLIST });
+    expect(result.types).toEqual(["clarifying_question"]);
+    expect(result.applied).toContain("Checklist blocked: clarifying question present");
+  });
+
+  ruleTest("checklist", "keeps 2 to 5 items", () => {
+    const result = run({ checklist: CHECKLIST });
+    expect(result.content("checklist")).toEqual({ ...CHECKLIST, items: CHECKLIST.items.slice(0, 5) });
+    expect(result.applied).toContain("Checklist included (5 items)");
+    expect(run({ checklist: { heading: "Try this", items: ["Rest"] } }).types).toEqual([]);
+  });
+
+  ruleTest("clarifying-question-blocks-cta", "hides the CTA while a question is open", () => {
+    const result = run({ clarifying_question: QUESTION, cta: CTA });
+    expect(result.types).toEqual(["clarifying_question"]);
+    expect(result.applied).toContain("CTA blocked: clarifying question present");
+  });
+
+  ruleTest("emergency-cta", "shows the primary action only", () => {
+    const result = run({ cta: CTA }, EMERGENCY);
+    expect(result.content("cta")).toEqual({ primary: "Call 111" });
+    expect(result.applied).toContain("CTA included: emergency mode (primary only)");
+  });
+
+  ruleTest("emergency-cta", "shows the CTA even when the model also asked a question", () => {
+    // The question is blocked first, so the CTA survives; before the rule set, both were hidden
+    const result = run({ clarifying_question: QUESTION, cta: CTA }, EMERGENCY);
+    expect(result.types).toEqual(["cta"]);
+    expect(result.blocked).toEqual(["clarifying_question"]);
+    expect(result.applied).not.toContain("CTA blocked: clarifying question present");
+  });
+
+  ruleTest("triage-blocks-secondary-cta", "drops the secondary action in triage", () => {
+    const result = run({ cta: CTA }, { triage: true, intent: "Triage (Urgent)" });
+    expect(result.content("cta")).toEqual({ primary: "Call 111" });
+    expect(result.applied).toContain("Secondary CTA blocked: triage mode");
+  });
+
+  ruleTest("cta-with-secondary", "keeps the secondary action outside triage", () => {
+    const result = run({ cta: CTA });
+    expect(result.content("cta")).toEqual(CTA);
+    expect(result.applied).toContain("CTA included with secondary action");
+  });
+
+  ruleTest("cta", "places a primary-only CTA", () => {
+    const result = run({ cta: { primary: "Call 111" } });
+    expect(result.content("cta")).toEqual({ primary: "Call 111" });
+    expect(result.applied).toContain("CTA included (primary only)");
+  });
+
+  ruleTest("emergency-blocks-sources", "hides sources in emergency mode", () => {
+    const result = run({ sources: SOURCES }, EMERGENCY);
+    expect(result.types).toEqual([]);
+    expect(result.applied).toContain("Sources suppressed (emergency mode)");
+  });
+
+  ruleTest("clarifying-question-blocks-sources", "hides sources while a question is open", () => {
+    const result = run({ clarifying_question: QUESTION, sources: SOURCES });
+    expect(result.types).toEqual(["clarifying_question"]);
+    expect(result.applied).toContain("Sources blocked: clarifying question present");
+  });
+
+  ruleTest("sources", "keeps at most 4 sources", () => {
+    const result = run({ summary: SUMMARY, sources: SOURCES });
+    expect(result.content("sources")).toEqual(SOURCES.slice(0, 4));
+    expect(result.applied).toContain("Sources included (4)");
+    expect(run({ sources: [] }).types).toEqual([]);
+  });
+
+  it("has a test for every rule", () => {
+    expect(UI_RULES.map((rule) => rule.id).filter((id) => !tested.has(id))).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * UI Assembly Policy
+ *
+ * The ordered rule set behind buildFinalUI. Order matters twice: rules run top
+ * to bottom, and components appear in the order they are placed.
+ *
+ * STACKING ORDER:
+ * 1. safety_alert (if caution/emergency - goes first)
+ * 2. summary (NOT in emergency mode)
+ * 3. safety_alert (if informational - goes after summary)
+ * 4. clarifying_question (if present)
+ * 5. checklist (2-5 items, not with a clarifying question or in emergency mode)
+ * 6. cta (ALWAYS allowed in emergency mode, even when the model also asked a
+ *    clarifying question; otherwise not with one; secondary only outside triage)
+ * 7. sources (1-4, not with a clarifying question or in emergency mode)
+ */
+
+import { UIRule } from "./types";
+
+export const UI_RULES: UIRule[] = [
+  // Preconditions
+  {
+    id: "red-flag-forces-emergency",
+    when: { redFlag: true },
+    actions: [],
+    trace: 'Red flag "{redFlag}": emergency mode forced',
+  },
+  {
+    id: "clarifying-limit",
+    when: { clarifyingLimitReached: true },
+    actions: [{ type: "block", component: "clarifying_question" }],
+    trace: "Clarifying question stripped: limit exceeded (2/2)",
+  },
+  {
+    id: "emergency-suppression",
+    when: { emergency: true },
+    actions: [],
+    trace: "Emergency mode: suppressing non-essential UI",
+  },
+
+  // 1. Safety alert (caution/emergency) - TOP POSITION
+  {
+    id: "urgent-alert-top",
+    when: { alertLevels: ["caution", "emergency"] },
+    actions: [{ type: "place", component: "safety_alert" }],
+    trace: "Safety alert ({level}) placed at top",
+  },
+
+  // 2. Summary (NOT in emergency mode)
+  {
+    id: "emergency-blocks-summary",
+    when: { emergency: true },
+    actions: [{ type: "block", component: "summary" }],
+    trace: "Summary blocked: emergency mode",
+  },
+  {
+    id: "summary",
+    actions: [{ type: "place", component: "summary" }],
+  },
+
+  // 3. Safety alert (informational) - AFTER SUMMARY
+  {
+    id: "informational-alert",
+    when: { alertLevels: ["informational"] },
+    actions: [{ type: "place", component: "safety_alert" }],
+    trace: "Informational alert placed below summary",
+  },
+
+  // 4. Clarifying question
+  {
+    id: "emergency-blocks-clarifying-question",
+    when: { emergency: true },
+    actions: [{ type: "block", component: "clarifying_question" }],
+    trace: "Clarifying question suppressed (emergency mode)",
+  },
+  {
+    id: "clarifying-question",
+    actions: [{ type: "place", component: "clarifying_question" }],
+    trace: "Clarifying question included",
+  },
+
+  // 5. Checklist
+  {
+    id: "emergency-blocks-checklist",
+    when: { emergency: true },
+    actions: [{ type: "block", component: "checklist" }],
+    trace: "Checklist suppressed (emergency mode)",
+  },
+  {
+    id: "clarifying-question-blocks-checklist",
+    when: { present: ["clarifying_question"] },
+    actions: [{ type: "block", component: "checklist" }],
+    trace: "Checklist blocked: clarifying question present",
+  },
+  {
+    id: "checklist",
+    actions: [
+      { type: "truncate", component: "checklist", max: 5 },
+      { type: "place", component: "checklist", minItems: 2 },
+    ],
+    trace: "Checklist included ({count} items)",
+  },
+
+  // 6. CTA
+  // In emergency mode the clarifying question is already blocked by this point,
+  // so it can't take the emergency CTA down with it
+  {
+    id: "clarifying-question-blocks-cta",
+    when: { present: ["clarifying_question"] },
+    actions: [{ type: "block", component: "cta" }],
+    trace: "CTA blocked: clarifying question present",
+  },
+  {
+    id: "emergency-cta",
+    when: { emergency: true },
+    actions: [
+      { type: "strip", component: "cta", field: "secondary" },
+      { type: "place", component: "cta" },
+    ],
+    trace: "CTA included: emergency mode (primary only)",
+  },
+  {
+    id: "triage-blocks-secondary-cta",
+    when: { triage: true, present: ["cta.secondary"] },
+    actions: [
+      { type: "strip", component: "cta", field: "secondary" },
+      { type: "place", component: "cta" },
+    ],
+    trace: "Secondary CTA blocked: triage mode",
+  },
+  {
+    id: "cta-with-secondary",
+    when: { present: ["cta.secondary"] },
+    actions: [{ type: "place", component: "cta" }],
+    trace: "CTA included with secondary action",
+  },
+  {
+    id: "cta",
+    actions: [{ type: "place", component: "cta" }],
+    trace: "CTA included (primary only)",
+  },
+
+  // 7. Sources
+  {
+    id: "emergency-blocks-sources",
+    when: { emergency: true },
+    actions: [{ type: "block", component: "sources" }],
+    trace: "Sources suppressed (emergency mode)",
+  },
+  {
+    id: "clarifying-question-blocks-sources",
+    when: { present: ["clarifying_question"] },
+    actions: [{ type: "block", component: "sources" }],
+    trace: "Sources blocked: clarifying question present",
+  },
+  {
+    id: "sources",
+    actions: [
+      { type: "truncate", component: "sources", max: 4 },
+      { type: "place", component: "sources", minItems: 1 },
+    ],
+    trace: "Sources included ({count})",
+  },
+
+  // 8. Return to conversation - DISABLED for now
+  // TODO: Re-enable when we have a clear use case for this feature
+];
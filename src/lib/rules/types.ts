@@ -0,0 +1,61 @@
+/**
+ * UI Rule Types
+ *
+ * A rule is a condition over the turn (mode, risk, intent, red flags, content
+ * present) plus actions on the response content. Rules are data: the policy
+ * lives in policy.ts and engine.ts only knows how to evaluate it.
+ */
+
+import type { IntentDetection, ResponseContent, SafetyAlertContent, UXMode } from "../buildFinalUI";
+import type { RedFlagMatch } from "../redFlags";
+
+export type ContentField = keyof ResponseContent;
+
+// A response_content field, or a field inside one ("cta.secondary")
+export type ContentPath = ContentField | `${ContentField}.${string}`;
+
+// Facts about the turn that conditions can test
+export interface RuleFacts {
+  mode: UXMode["mode"];
+  risk: IntentDetection["risk_level"];
+  intent: string;
+  // Emergency mode chosen by the model or forced by a red flag
+  emergency: boolean;
+  triage: boolean;
+  clarifyingLimitReached: boolean;
+  redFlag: RedFlagMatch | null;
+}
+
+// Every listed property must hold; array properties match any of their values
+export interface RuleCondition {
+  modes?: UXMode["mode"][];
+  riskLevels?: IntentDetection["risk_level"][];
+  intents?: string[];
+  emergency?: boolean;
+  triage?: boolean;
+  redFlag?: boolean;
+  clarifyingLimitReached?: boolean;
+  alertLevels?: SafetyAlertContent["level"][];
+  // Paths that must still be present in the content, after earlier rules ran
+  present?: ContentPath[];
+}
+
+export type RuleAction =
+  // Add the component to the UI, in rule order. Each component is placed at most once.
+  | { type: "place"; component: ContentField; minItems?: number }
+  // Remove the component and list it in blocked_components
+  | { type: "block"; component: ContentField }
+  // Keep only the first `max` items of a list component
+  | { type: "truncate"; component: "checklist" | "sources"; max: number }
+  // Remove one field from a component
+  | { type: "strip"; component: ContentField; field: string };
+
+export interface UIRule {
+  id: string;
+  when?: RuleCondition;
+  // A rule with no actions only records its trace
+  actions: RuleAction[];
+  // Added to applied_rules when any action takes effect.
+  // {level}, {count} and {redFlag} are replaced with the alert level, item count and red flag label.
+  trace?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * Session Store Selection
+ *
+ * Picks where conversation sessions live from environment config:
+ *
+ * - SESSION_STORE: memory (default) | sqlite
+ * - SESSION_DB_PATH: SQLite file for the sqlite store (default .cache/sessions.sqlite)
+ * - SESSION_TTL_HOURS: how long a session lasts from its creation (default 168, one week)
+ *
+ * One store is shared by every request in the process.
+ */
+
+import { createMemorySessionStore } from "./memory";
+import { createSqliteSessionStore } from "./sqlite";
+import { SessionStore, SessionStoreName } from "./types";
+
+export * from "./types";
+
+const DEFAULT_DB_PATH = ".cache/sessions.sqlite";
+const DEFAULT_TTL_HOURS = 168;
+
+function getTtlMs(env: NodeJS.ProcessEnv): number {
+  const hours = Number(env.SESSION_TTL_HOURS);
+  return (hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+let store: SessionStore | null = null;
+
+export function getSessionStore(env: NodeJS.ProcessEnv = process.env): SessionStore {
+  if (store) return store;
+
+  const name = (env.SESSION_STORE || "memory") as SessionStoreName;
+  const ttlMs = getTtlMs(env);
+  switch (name) {
+    case "memory":
+      store = createMemorySessionStore(ttlMs);
+      break;
+    case "sqlite":
+      store = createSqliteSessionStore(env.SESSION_DB_PATH || DEFAULT_DB_PATH, ttlMs);
+      break;
+    default:
+      throw new Error(`Unknown SESSION_STORE "${name}"`);
+  }
+  return store;
+}
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemorySessionStore } from "./memory";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("createMemorySessionStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 0, 1));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it("stops returning a session once its TTL has passed", async () => {
+    const store = createMemorySessionStore(24 * HOUR);
+    const { id } = await store.create();
+    await store.appendTurns(id, [{ role: "user", content: "I have a headache" }]);
+
+    vi.advanceTimersByTime(23 * HOUR);
+    expect((await store.get(id))?.turns).toHaveLength(1);
+
+    vi.advanceTimersByTime(HOUR);
+    expect(await store.get(id)).toBeNull();
+  });
+
+  it("deletes expired sessions when a new one is created", async () => {
+    const store = createMemorySessionStore(24 * HOUR);
+    const old = await store.create();
+    vi.advanceTimersByTime(24 * HOUR);
+    await store.create();
+
+    await expect(store.appendTurns(old.id, [{ role: "user", content: "Still there?" }])).rejects.toThrow("Unknown session");
+  });
+});
@@ -0,0 +1,43 @@
+import { randomUUID } from "crypto";
+import { Session, SessionStore } from "./types";
+
+/**
+ * Process-local store. Sessions are lost on restart and not shared between
+ * instances, which is fine for local development and single-instance demos.
+ * Sessions expire ttlMs after they were created, and the oldest are evicted
+ * once the limit is reached.
+ */
+export function createMemorySessionStore(ttlMs: number, maxSessions: number = 1000): SessionStore {
+  // Insertion order is creation order, so expired sessions are always at the front
+  const sessions = new Map<string, Session>();
+  const expired = (session: Session) => Date.now() - session.createdAt >= ttlMs;
+
+  return {
+    name: "memory",
+
+    async create() {
+      for (const [id, session] of sessions) {
+        if (!expired(session)) break;
+        sessions.delete(id);
+      }
+      if (sessions.size >= maxSessions) {
+        sessions.delete(sessions.keys().next().value!);
+      }
+      const session: Session = { id: randomUUID(), createdAt: Date.now(), turns: [] };
+      sessions.set(session.id, session);
+      return { ...session, turns: [] };
+    },
+
+    async get(id) {
+      const session = sessions.get(id);
+      if (!session || expired(session)) return null;
+      return { ...session, turns: [...session.turns] };
+    },
+
+    async appendTurns(id, turns) {
+      const session = sessions.get(id);
+      if (!session) throw new Error(`Unknown session "${id}"`);
+      session.turns.push(...turns);
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import path from "path";
+import { SessionStore, SessionTurn } from "./types";
+
+/**
+ * SQLite file store, so sessions survive restarts. Uses the built-in
+ * node:sqlite module (Node 22.5+) rather than a native dependency.
+ * Sessions expire ttlMs after they were created; expired ones are deleted
+ * with their turns whenever a new session is created.
+ */
+
+// The subset of node:sqlite used here
+interface StatementSync {
+  run(...params: unknown[]): unknown;
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+interface DatabaseSync {
+  exec(sql: string): void;
+  prepare(sql: string): StatementSync;
+}
+
+interface SqliteModule {
+  DatabaseSync: new (file: string) => DatabaseSync;
+}
+
+function openDatabase(file: string): DatabaseSync {
+  const sqlite = process.getBuiltinModule?.("node:sqlite") as SqliteModule | undefined;
+  if (!sqlite) {
+    throw new Error(`SESSION_STORE=sqlite needs Node 22.5 or later (running ${process.version})`);
+  }
+  mkdirSync(path.dirname(file), { recursive: true });
+  return new sqlite.DatabaseSync(file);
+}
+
+export function createSqliteSessionStore(file: string, ttlMs: number): SessionStore {
+  const db = openDatabase(path.resolve(file));
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS turns (
+      session_id TEXT NOT NULL REFERENCES sessions(id),
+      position INTEGER NOT NULL,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      structured TEXT,
+      PRIMARY KEY (session_id, position)
+    );
+    CREATE INDEX IF NOT EXISTS sessions_created_at ON sessions (created_at);
+  `);
+
+  const insertSession = db.prepare("INSERT INTO sessions (id, created_at) VALUES (?, ?)");
+  const selectSession = db.prepare("SELECT id, created_at FROM sessions WHERE id = ?");
+  const selectTurns = db.prepare("SELECT role, content, structured FROM turns WHERE session_id = ? ORDER BY position");
+  const countTurns = db.prepare("SELECT COUNT(*) AS count FROM turns WHERE session_id = ?");
+  const insertTurn = db.prepare(
+    "INSERT INTO turns (session_id, position, role, content, structured) VALUES (?, ?, ?, ?, ?)"
+  );
+  const deleteExpiredTurns = db.prepare(
+    "DELETE FROM turns WHERE session_id IN (SELECT id FROM sessions WHERE created_at <= ?)"
+  );
+  const deleteExpiredSessions = db.prepare("DELETE FROM sessions WHERE created_at <= ?");
+
+  // Removes every session created at or before the cutoff
+  const prune = (cutoff: number) => {
+    db.exec("BEGIN");
+    try {
+      deleteExpiredTurns.run(cutoff);
+      deleteExpiredSessions.run(cutoff);
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  };
+
+  return {
+    name: "sqlite",
+
+    async create() {
+      prune(Date.now() - ttlMs);
+      const session = { id: randomUUID(), createdAt: Date.now(), turns: [] };
+      insertSession.run(session.id, session.createdAt);
+      return session;
+    },
+
+    async get(id) {
+      const row = selectSession.get(id) as { id: string; created_at: number } | undefined;
+      if (!row || Date.now() - row.created_at >= ttlMs) return null;
+
+      const turns = (selectTurns.all(id) as Array<{ role: SessionTurn["role"]; content: string; structured: string | null }>)
+        .map(({ role, content, structured }) => ({
+          role,
+          content,
+          ...(structured && { structured: JSON.parse(structured) }),
+        }));
+      return { id: row.id, createdAt: row.created_at, turns };
+    },
+
+    async appendTurns(id, turns) {
+      if (!selectSession.get(id)) throw new Error(`Unknown session "${id}"`);
+
+      const { count } = countTurns.get(id) as { count: number };
+      db.exec("BEGIN");
+      try {
+        turns.forEach((turn, i) => {
+          insertTurn.run(id, count + i, turn.role, turn.content, turn.structured ? JSON.stringify(turn.structured) : null);
+        });
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Session Types
+ *
+ * A session is the server's record of a conversation. The browser only holds
+ * its id, so history (and anything derived from it, like the clarifying
+ * question count) can't be edited or forged client-side.
+ */
+
+export interface SessionTurn {
+  role: "user" | "assistant";
+  content: string;
+  // What the assistant showed, kept for conversation history
+  structured?: {
+    ux_mode?: { mode: string; reason?: string };
+    response_content?: {
+      summary?: string;
+      safety_alert?: { level: string; title?: string; message: string };
+      clarifying_question?: {
+        question: string;
+        options: string[];
+      };
+    };
+  };
+}
+
+export interface Session {
+  id: string;
+  createdAt: number;
+  turns: SessionTurn[];
+}
+
+export interface SessionStore {
+  name: string;
+  create(): Promise<Session>;
+  // null for unknown or expired ids
+  get(id: string): Promise<Session | null>;
+  appendTurns(id: string, turns: SessionTurn[]): Promise<void>;
+}
+
+export type SessionStoreName = "memory" | "sqlite";
@@ -0,0 +1,147 @@
+/**
+ * Source Allowlist and Trust Tiers
+ *
+ * The model invents source URLs and image URLs. Only publishers on this list
+ * are ever linked: runs after buildFinalUI, tags each trusted source with its
+ * tier, and drops or demotes the rest. A demoted source keeps its title but
+ * loses its URL and image, so it renders as plain text.
+ *
+ * - official: governments and public health agencies
+ * - clinical: hospitals and academic medical centres
+ * - reference: established consumer health publishers
+ */
+
+import type { BuildResult, SourceContent } from "./buildFinalUI";
+import { describeCitationReport, reconcileCitations } from "./rules";
+
+export type TrustTier = "official" | "clinical" | "reference";
+
+// Tier shown for demoted sources
+export const UNVERIFIED_TIER = "unverified";
+
+export interface TrustedDomain {
+  // Matches the domain itself and any subdomain
+  domain: string;
+  site_name: string;
+  tier: TrustTier;
+}
+
+export const TRUSTED_DOMAINS: TrustedDomain[] = [
+  { domain: "canada.ca", site_name: "Government of Canada", tier: "official" },
+  { domain: "healthlinkbc.ca", site_name: "HealthLink BC", tier: "official" },
+  { domain: "ontario.ca", site_name: "Government of Ontario", tier: "official" },
+  { domain: "cdc.gov", site_name: "CDC", tier: "official" },
+  { domain: "nih.gov", site_name: "National Institutes of Health", tier: "official" },
+  { domain: "medlineplus.gov", site_name: "MedlinePlus", tier: "official" },
+  { domain: "fda.gov", site_name: "FDA", tier: "official" },
+  { domain: "who.int", site_name: "World Health Organization", tier: "official" },
+  { domain: "nhs.uk", site_name: "NHS", tier: "official" },
+  { domain: "mayoclinic.org", site_name: "Mayo Clinic", tier: "clinical" },
+  { domain: "clevelandclinic.org", site_name: "Cleveland Clinic", tier: "clinical" },
+  { domain: "hopkinsmedicine.org", site_name: "Johns Hopkins Medicine", tier: "clinical" },
+  { domain: "aboutkidshealth.ca", site_name: "AboutKidsHealth (SickKids)", tier: "clinical" },
+  { domain: "heartandstroke.ca", site_name: "Heart & Stroke", tier: "reference" },
+  { domain: "diabetes.ca", site_name: "Diabetes Canada", tier: "reference" },
+  { domain: "cancer.ca", site_name: "Canadian Cancer Society", tier: "reference" },
+  { domain: "drugs.com", site_name: "Drugs.com", tier: "reference" },
+  { domain: "webmd.com", site_name: "WebMD", tier: "reference" },
+  { domain: "healthline.com", site_name: "Healthline", tier: "reference" },
+];
+
+export type UntrustedSourcePolicy = "drop" | "demote";
+
+export const DEFAULT_UNTRUSTED_SOURCE_POLICY: UntrustedSourcePolicy = "drop";
+
+function getHost(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return null;
+    return parsed.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the allowlist entry for a URL, or null if its domain is not trusted.
+ */
+export function lookupTrustedDomain(url: string, allowlist: TrustedDomain[] = TRUSTED_DOMAINS): TrustedDomain | null {
+  const host = getHost(url);
+  if (!host) return null;
+  return allowlist.find((entry) => host === entry.domain || host.endsWith(`.${entry.domain}`)) ?? null;
+}
+
+/**
+ * Enforce the allowlist on the sources component of a built UI.
+ * Trusted sources keep their order, demoted ones move to the end, and
+ * citation markers are renumbered to match.
+ */
+export function applySourceAllowlist<T extends BuildResult>(
+  result: T,
+  policy: UntrustedSourcePolicy = DEFAULT_UNTRUSTED_SOURCE_POLICY,
+  allowlist: TrustedDomain[] = TRUSTED_DOMAINS
+): T {
+  const components = result.final_ui.components.map((c) => ({ ...c }));
+  const sourcesComponent = components.find((c) => c.type === "sources");
+  if (!sourcesComponent) return result;
+
+  const sources = sourcesComponent.content as SourceContent[];
+  const applied: string[] = [];
+  const trusted: SourceContent[] = [];
+  const demoted: SourceContent[] = [];
+
+  for (const source of sources) {
+    const entry = lookupTrustedDomain(source.url, allowlist);
+    const host = getHost(source.url) || source.url;
+
+    if (entry) {
+      const checked: SourceContent = { ...source, site_name: source.site_name || entry.site_name, trust_tier: entry.tier };
+      // Images are hot-linked, so they need a trusted host too
+      if (checked.image_url && !lookupTrustedDomain(checked.image_url, allowlist)) {
+        delete checked.image_url;
+        applied.push(`Source image removed: untrusted host (${getHost(source.image_url!) || "invalid URL"})`);
+      }
+      trusted.push(checked);
+    } else if (policy === "demote") {
+      demoted.push({ ...source, site_name: source.site_name || host, trust_tier: UNVERIFIED_TIER });
+      applied.push(`Source demoted: untrusted domain (${host})`);
+    } else {
+      applied.push(`Source dropped: untrusted domain (${host})`);
+    }
+  }
+
+  // Reconcile while demoted sources still have their URLs to match on, then unlink them
+  sourcesComponent.content = [...trusted, ...demoted];
+  const citations = reconcileCitations(components, sources);
+  sourcesComponent.content = [
+    ...trusted,
+    ...demoted.map((source) => {
+      const unlinked: SourceContent = { ...source, url: "" };
+      delete unlinked.image_url;
+      return unlinked;
+    }),
+  ];
+
+  const finalComponents = trusted.length + demoted.length > 0
+    ? components
+    : components.filter((c) => c !== sourcesComponent);
+  const blocked = finalComponents === components
+    ? result.guardrails.blocked_components
+    : [...result.guardrails.blocked_components, "sources"];
+
+  return {
+    ...result,
+    final_ui: { components: finalComponents },
+    guardrails: {
+      ...result.guardrails,
+      allowed_components: finalComponents.map((c) => c.type),
+      blocked_components: blocked,
+      applied_rules: [...result.guardrails.applied_rules, ...applied, ...describeCitationReport(citations)],
+    },
+    citations: {
+      renumbered: [...result.citations.renumbered, ...citations.renumbered],
+      stripped: [...result.citations.stripped, ...citations.stripped],
+      uncited: citations.uncited,
+    },
+  };
+}
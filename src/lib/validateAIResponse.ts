@@ -0,0 +1,307 @@
+/**
+ * Runtime Schema for AIResponse
+ *
+ * The model's JSON is untrusted: enums drift ("High", "urgent"), strings arrive
+ * wrapped as {text: "..."}, arrays arrive as strings. This module is the single
+ * definition of what a valid AIResponse looks like. It walks the parsed JSON,
+ * repairs what can be repaired without changing meaning, drops optional pieces
+ * that cannot be, and reports everything it touched as typed issues.
+ */
+
+import type {
+  AIResponse,
+  ChecklistContent,
+  ClarifyingQuestionContent,
+  CTAContent,
+  IntentDetection,
+  ResponseContent,
+  SafetyAlertContent,
+  SourceContent,
+  UXMode,
+} from "./buildFinalUI";
+
+export const RISK_LEVELS = ["low", "medium", "high"] as const;
+export const UX_MODES = ["informational", "clarification", "emergency"] as const;
+export const SAFETY_LEVELS = ["informational", "caution", "emergency"] as const;
+const RESPONSE_CONTENT_FIELDS = ["summary", "safety_alert", "clarifying_question", "checklist", "cta", "sources"];
+
+export type ValidationIssueCode =
+  | "missing" // Required field absent
+  | "invalid_type" // Field present with the wrong type
+  | "invalid_enum" // String outside the allowed values
+  | "coerced" // Value converted to the expected type/casing
+  | "dropped" // Optional field or item removed
+  | "unknown_field"; // Field not in the schema, removed
+
+export interface ValidationIssue {
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+  // True when the issue was fixed in the normalized output
+  repaired: boolean;
+}
+
+export interface ValidationResult {
+  // Normalized response, or null when a required field could not be repaired
+  response: AIResponse | null;
+  valid: boolean;
+  issues: ValidationIssue[];
+}
+
+type Obj = Record<string, unknown>;
+
+function isObject(value: unknown): value is Obj {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Validate and normalize parsed model output against the AIResponse schema.
+ */
+export function validateAIResponse(raw: unknown): ValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  const report = (path: string, code: ValidationIssueCode, message: string, repaired: boolean) => {
+    issues.push({ path, code, message, repaired });
+  };
+
+  // Strings: accept plain strings and {text: "..."} wrappers, trim whitespace
+  const readString = (value: unknown, path: string, required: boolean): string | undefined => {
+    if (typeof value === "string") return value.trim();
+    if (isObject(value) && typeof value.text === "string") {
+      report(path, "coerced", "Unwrapped {text} object to string", true);
+      return value.text.trim();
+    }
+    if (value === undefined || value === null) {
+      if (required) report(path, "missing", "Required string is missing", false);
+      return undefined;
+    }
+    report(path, "invalid_type", `Expected string, got ${describe(value)}`, !required);
+    return undefined;
+  };
+
+  // Enums: exact match, or case/whitespace-insensitive match (repaired)
+  const readEnum = <T extends string>(
+    value: unknown,
+    allowed: readonly T[],
+    path: string
+  ): T | undefined => {
+    const text = readString(value, path, true);
+    if (text === undefined) return undefined;
+    if ((allowed as readonly string[]).includes(text)) return text as T;
+
+    const normalized = text.toLowerCase();
+    if ((allowed as readonly string[]).includes(normalized)) {
+      report(path, "coerced", `Normalized "${text}" to "${normalized}"`, true);
+      return normalized as T;
+    }
+    report(path, "invalid_enum", `"${text}" is not one of ${allowed.join(", ")}`, false);
+    return undefined;
+  };
+
+  const readStringArray = (value: unknown, path: string): string[] | undefined => {
+    if (!Array.isArray(value)) {
+      report(path, value === undefined ? "missing" : "invalid_type", `Expected array, got ${describe(value)}`, false);
+      return undefined;
+    }
+    const items: string[] = [];
+    value.forEach((item, i) => {
+      const text = readString(item, `${path}[${i}]`, false);
+      if (text) {
+        items.push(text);
+      } else {
+        report(`${path}[${i}]`, "dropped", "Removed empty or non-string item", true);
+      }
+    });
+    return items;
+  };
+
+  // Optional components are dropped when they cannot be repaired, which is always safe for the UI
+  const dropComponent = (path: string) => {
+    for (const issue of issues) {
+      if (issue.path.startsWith(path) && !issue.repaired) issue.repaired = true;
+    }
+    report(path, "dropped", "Removed component that failed validation", true);
+  };
+
+  if (!isObject(raw)) {
+    report("", "invalid_type", `Expected object, got ${describe(raw)}`, false);
+    return { response: null, valid: false, issues };
+  }
+
+  // intent_detection
+  let intent_detection: IntentDetection | undefined;
+  if (isObject(raw.intent_detection)) {
+    const d = raw.intent_detection;
+    const primary_intent = readString(d.primary_intent, "intent_detection.primary_intent", true);
+    const risk_level = readEnum(d.risk_level, RISK_LEVELS, "intent_detection.risk_level");
+    let secondary_intents: string[] = [];
+    if (Array.isArray(d.secondary_intents)) {
+      secondary_intents = readStringArray(d.secondary_intents, "intent_detection.secondary_intents") ?? [];
+    } else if (d.secondary_intents !== undefined) {
+      report("intent_detection.secondary_intents", "invalid_type", `Expected array, got ${describe(d.secondary_intents)}`, true);
+    }
+    const reasoning = readString(d.reasoning, "intent_detection.reasoning", false) ?? "";
+    if (primary_intent && risk_level) {
+      intent_detection = { primary_intent, secondary_intents, risk_level, reasoning };
+    }
+  } else {
+    report("intent_detection", "missing", "Required object is missing", false);
+  }
+
+  // ux_mode
+  let ux_mode: UXMode | undefined;
+  if (isObject(raw.ux_mode)) {
+    const mode = readEnum(raw.ux_mode.mode, UX_MODES, "ux_mode.mode");
+    const reason = readString(raw.ux_mode.reason, "ux_mode.reason", false) ?? "";
+    if (mode) ux_mode = { mode, reason };
+  } else {
+    report("ux_mode", "missing", "Required object is missing", false);
+  }
+
+  // response_content
+  let response_content: ResponseContent | undefined;
+  if (isObject(raw.response_content)) {
+    const c = raw.response_content;
+    response_content = {};
+
+    for (const key of Object.keys(c)) {
+      if (!RESPONSE_CONTENT_FIELDS.includes(key)) {
+        report(`response_content.${key}`, "unknown_field", "Removed field not in schema", true);
+      }
+    }
+
+    if (c.summary !== undefined) {
+      const summary = readString(c.summary, "response_content.summary", false);
+      if (summary) response_content.summary = summary;
+    }
+
+    if (c.safety_alert !== undefined) {
+      const path = "response_content.safety_alert";
+      if (isObject(c.safety_alert)) {
+        const level = readEnum(c.safety_alert.level, SAFETY_LEVELS, `${path}.level`);
+        const title = readString(c.safety_alert.title, `${path}.title`, false);
+        const message = readString(c.safety_alert.message, `${path}.message`, true);
+        // A safety alert without a message cannot be shown, and dropping one silently is not safe
+        if (level && message) {
+          const alert: SafetyAlertContent = { level, message };
+          if (title) alert.title = title;
+          response_content.safety_alert = alert;
+        }
+      } else {
+        report(path, "invalid_type", `Expected object, got ${describe(c.safety_alert)}`, false);
+      }
+    }
+
+    if (c.clarifying_question !== undefined) {
+      const path = "response_content.clarifying_question";
+      if (isObject(c.clarifying_question)) {
+        const question = readString(c.clarifying_question.question, `${path}.question`, true);
+        const options = readStringArray(c.clarifying_question.options, `${path}.options`);
+        const allowsExit = c.clarifying_question.allows_exit;
+        if (question && options && options.length > 0) {
+          const clarifying: ClarifyingQuestionContent = { question, options };
+          if (typeof allowsExit === "boolean") {
+            clarifying.allows_exit = allowsExit;
+          } else if (allowsExit !== undefined) {
+            clarifying.allows_exit = allowsExit === "true";
+            report(`${path}.allows_exit`, "coerced", `Converted ${describe(allowsExit)} to boolean`, true);
+          }
+          response_content.clarifying_question = clarifying;
+        } else if (options && options.length === 0) {
+          report(`${path}.options`, "missing", "Clarifying question has no options", false);
+        }
+      } else {
+        report(path, "invalid_type", `Expected object, got ${describe(c.clarifying_question)}`, false);
+      }
+    }
+
+    if (c.checklist !== undefined) {
+      const path = "response_content.checklist";
+      if (isObject(c.checklist)) {
+        const heading = readString(c.checklist.heading, `${path}.heading`, false) ?? "";
+        const items = readStringArray(c.checklist.items, `${path}.items`);
+        if (items) {
+          const checklist: ChecklistContent = { heading, items };
+          response_content.checklist = checklist;
+        } else {
+          dropComponent(path);
+        }
+      } else {
+        report(path, "invalid_type", `Expected object, got ${describe(c.checklist)}`, true);
+        dropComponent(path);
+      }
+    }
+
+    if (c.cta !== undefined) {
+      const path = "response_content.cta";
+      // Accept a bare string as the primary action
+      const rawCta = typeof c.cta === "string" ? { primary: c.cta } : c.cta;
+      if (typeof c.cta === "string") {
+        report(path, "coerced", "Converted string to {primary}", true);
+      }
+      if (isObject(rawCta)) {
+        const primary = readString(rawCta.primary, `${path}.primary`, true);
+        const secondary = readString(rawCta.secondary, `${path}.secondary`, false);
+        if (primary) {
+          const cta: CTAContent = { primary };
+          if (secondary) cta.secondary = secondary;
+          response_content.cta = cta;
+        } else {
+          dropComponent(path);
+        }
+      } else {
+        report(path, "invalid_type", `Expected object, got ${describe(c.cta)}`, true);
+        dropComponent(path);
+      }
+    }
+
+    if (c.sources !== undefined) {
+      const path = "response_content.sources";
+      if (Array.isArray(c.sources)) {
+        const sources: SourceContent[] = [];
+        c.sources.forEach((item, i) => {
+          const itemPath = `${path}[${i}]`;
+          if (!isObject(item)) {
+            report(itemPath, "dropped", `Removed ${describe(item)} source`, true);
+            return;
+          }
+          const url = readString(item.url, `${itemPath}.url`, false);
+          const title = readString(item.title, `${itemPath}.title`, false) || readString(item.name, `${itemPath}.name`, false);
+          if (!url || !title) {
+            report(itemPath, "dropped", "Removed source without title and url", true);
+            return;
+          }
+          const source: SourceContent = {
+            title,
+            site_name: readString(item.site_name, `${itemPath}.site_name`, false) ?? "",
+            url,
+          };
+          const description = readString(item.description, `${itemPath}.description`, false) || readString(item.note, `${itemPath}.note`, false);
+          const imageUrl = readString(item.image_url, `${itemPath}.image_url`, false);
+          if (description) source.description = description;
+          if (imageUrl) source.image_url = imageUrl;
+          sources.push(source);
+        });
+        response_content.sources = sources;
+      } else {
+        report(path, "invalid_type", `Expected array, got ${describe(c.sources)}`, true);
+        dropComponent(path);
+      }
+    }
+  } else {
+    report("response_content", "missing", "Required object is missing", false);
+  }
+
+  const allRepaired = issues.every((issue) => issue.repaired);
+  const response = allRepaired && intent_detection && ux_mode && response_content
+    ? { intent_detection, ux_mode, response_content }
+    : null;
+
+  return { response, valid: response !== null, issues };
+}
@@ -0,0 +1,44 @@
+import { renderTemplate } from "./template";
+
+/**
+ * Per-turn context appended to the system prompt: clarifying question budget
+ * and, when they apply, the exhausted-questions and red-flag notices.
+ */
+export const CONVERSATION_CONTEXT_SECTION = `
+
+## CURRENT CONVERSATION CONTEXT
+- Clarifying questions asked so far: {{clarifying_count}}/{{clarifying_max}}
+{{clarifying_exhausted_notice}}{{red_flag_notice}}`;
+
+const CLARIFYING_EXHAUSTED_NOTICE = `
+**CRITICAL: CLARIFYING_QUESTIONS_EXHAUSTED**
+You have already asked {{clarifying_max}} clarifying questions. You MUST provide a definitive answer NOW.
+Do NOT include a clarifying_question in your response. Provide your best assessment with the information gathered.
+`;
+
+const RED_FLAG_NOTICE = `
+**RED FLAG DETECTED: {{red_flag_label}}**
+Respond in emergency mode with an emergency safety_alert and a primary CTA.
+`;
+
+export interface ConversationContext {
+  clarifyingCount: number;
+  clarifyingMax: number;
+  // Label of the red flag found in the user's message, if any
+  redFlagLabel: string | null;
+}
+
+export function renderConversationContext({ clarifyingCount, clarifyingMax, redFlagLabel }: ConversationContext): string {
+  const clarifyingMaxText = String(clarifyingMax);
+
+  return renderTemplate(CONVERSATION_CONTEXT_SECTION, {
+    clarifying_count: String(clarifyingCount),
+    clarifying_max: clarifyingMaxText,
+    clarifying_exhausted_notice: clarifyingCount >= clarifyingMax
+      ? renderTemplate(CLARIFYING_EXHAUSTED_NOTICE, { clarifying_max: clarifyingMaxText })
+      : "",
+    red_flag_notice: redFlagLabel
+      ? renderTemplate(RED_FLAG_NOTICE, { red_flag_label: redFlagLabel })
+      : "",
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Prompt Registry
+ *
+ * Every system prompt the route can send, keyed by id and semantic version.
+ * A request runs one prompt version, chosen in this order:
+ *
+ * 1. The x-remedy-prompt header (debug builds only), e.g. "remedy-ux-assembly@1.1.0"
+ * 2. PROMPT_VERSION in the environment
+ * 3. The latest version of DEFAULT_PROMPT_ID
+ *
+ * A reference without a version resolves to the latest version of that id.
+ * Bump the version and add a changelog entry whenever a prompt's text changes,
+ * so debug output and logs say exactly which prompt produced a response.
+ * Released versions stay registered, with their text frozen in archive/, so
+ * any version in a changelog can still be selected.
+ */
+
+import { REMEDY_UX_ASSEMBLY_PROMPT_1_0_0 } from "./archive/remedy-ux-assembly-1.0.0";
+import { REMEDY_UX_ASSEMBLY_LITE_PROMPT_1_0_0 } from "./archive/remedy-ux-assembly-lite-1.0.0";
+import { REMEDY_UX_ASSEMBLY_LITE_PROMPT_1_1_0 } from "./archive/remedy-ux-assembly-lite-1.1.0";
+import { REMEDY_UX_ASSEMBLY_PROMPT } from "./remedy-ux-assembly";
+import { REMEDY_UX_ASSEMBLY_LITE_PROMPT } from "./remedy-ux-assembly-lite";
+
+/**
+ * Output shape the prompt asks for:
+ * - lite: intent_detection, ux_mode and response_content; the server assembles the UI
+ * - full: the 9-section evaluation, including the model's own final_ui
+ */
+export type PromptOutputSchema = "lite" | "full";
+
+export interface PromptChange {
+  version: string;
+  date: string;
+  changes: string[];
+}
+
+export interface PromptDefinition {
+  id: string;
+  version: string;
+  description: string;
+  outputSchema: PromptOutputSchema;
+  // Rendered with renderTemplate; the only slot is {{user_question}}
+  template: string;
+  changelog: PromptChange[];
+}
+
+export type PromptSource = "header" | "config" | "default";
+
+export const DEFAULT_PROMPT_ID = "remedy-ux-assembly-lite";
+
+export const PROMPT_HEADER = "x-remedy-prompt";
+
+const LITE_DESCRIPTION = "Content and classification only; UI assembly is left to the rules engine";
+const FULL_DESCRIPTION = "Full 9-section evaluation, with the model assembling its own final_ui";
+
+const LITE_CHANGELOG: PromptChange[] = [
+  { version: "1.0.0", date: "2026-10-18", changes: ["Initial lite prompt"] },
+  { version: "1.1.0", date: "2026-10-18", changes: ["Sources restricted to established health publishers"] },
+  { version: "1.2.0", date: "2026-10-18", changes: ["User question passed as an escaped {{user_question}} slot"] },
+];
+
+const FULL_CHANGELOG: PromptChange[] = [
+  { version: "1.0.0", date: "2026-10-18", changes: ["Initial full assembly prompt"] },
+  { version: "1.1.0", date: "2026-10-18", changes: ["User question passed as an escaped {{user_question}} slot"] },
+];
+
+// The changelog as it stood when a version was released
+function changesUpTo(changelog: PromptChange[], version: string): PromptChange[] {
+  return changelog.filter((change) => compareVersions(change.version, version) <= 0);
+}
+
+/**
+ * Versions released before the {{user_question}} slot marked the question
+ * with a placeholder to replace. It becomes the slot, so the question is
+ * escaped as it is for current versions; the rest of the text is as released.
+ */
+function withQuestionSlot(template: string): string {
+  return template.replace('"<USER QUESTION HERE>"', "{{user_question}}");
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    id: "remedy-ux-assembly-lite",
+    version: "1.2.0",
+    description: LITE_DESCRIPTION,
+    outputSchema: "lite",
+    template: REMEDY_UX_ASSEMBLY_LITE_PROMPT,
+    changelog: LITE_CHANGELOG,
+  },
+  {
+    id: "remedy-ux-assembly-lite",
+    version: "1.1.0",
+    description: LITE_DESCRIPTION,
+    outputSchema: "lite",
+    template: withQuestionSlot(REMEDY_UX_ASSEMBLY_LITE_PROMPT_1_1_0),
+    changelog: changesUpTo(LITE_CHANGELOG, "1.1.0"),
+  },
+  {
+    id: "remedy-ux-assembly-lite",
+    version: "1.0.0",
+    description: LITE_DESCRIPTION,
+    outputSchema: "lite",
+    template: withQuestionSlot(REMEDY_UX_ASSEMBLY_LITE_PROMPT_1_0_0),
+    changelog: changesUpTo(LITE_CHANGELOG, "1.0.0"),
+  },
+  {
+    id: "remedy-ux-assembly",
+    version: "1.1.0",
+    description: FULL_DESCRIPTION,
+    outputSchema: "full",
+    template: REMEDY_UX_ASSEMBLY_PROMPT,
+    changelog: FULL_CHANGELOG,
+  },
+  {
+    id: "remedy-ux-assembly",
+    version: "1.0.0",
+    description: FULL_DESCRIPTION,
+    outputSchema: "full",
+    template: withQuestionSlot(REMEDY_UX_ASSEMBLY_PROMPT_1_0_0),
+    changelog: changesUpTo(FULL_CHANGELOG, "1.0.0"),
+  },
+];
+
+export class UnknownPromptError extends Error {
+  constructor(ref: string) {
+    super(`Unknown prompt "${ref}"`);
+    this.name = "UnknownPromptError";
+  }
+}
+
+export function promptKey(prompt: PromptDefinition): string {
+  return `${prompt.id}@${prompt.version}`;
+}
+
+function compareVersions(a: string, b: string): number {
+  const [pa, pb] = [a.split(".").map(Number), b.split(".").map(Number)];
+  for (let i = 0; i < 3; i++) {
+    if ((pa[i] ?? 0) !== (pb[i] ?? 0)) return (pa[i] ?? 0) - (pb[i] ?? 0);
+  }
+  return 0;
+}
+
+/**
+ * Look up a prompt by "id" (latest version) or "id@version".
+ * @throws UnknownPromptError if no registered prompt matches
+ */
+export function resolvePrompt(ref: string, prompts: PromptDefinition[] = PROMPTS): PromptDefinition {
+  const [id, version] = ref.trim().split("@");
+  const matches = prompts
+    .filter((p) => p.id === id && (!version || p.version === version))
+    .sort((a, b) => compareVersions(b.version, a.version));
+
+  if (matches.length === 0) throw new UnknownPromptError(ref);
+  return matches[0];
+}
+
+/**
+ * Pick the prompt for a request.
+ * @param headerRef - Value of the x-remedy-prompt header; ignored unless debug headers are allowed
+ */
+export function selectPrompt(
+  headerRef: string | null,
+  env: NodeJS.ProcessEnv = process.env
+): { prompt: PromptDefinition; source: PromptSource } {
+  const headersAllowed = env.NODE_ENV !== "production" || env.ALLOW_DEBUG_HEADERS === "1";
+
+  if (headerRef && headersAllowed) {
+    return { prompt: resolvePrompt(headerRef), source: "header" };
+  }
+  if (env.PROMPT_VERSION) {
+    return { prompt: resolvePrompt(env.PROMPT_VERSION), source: "config" };
+  }
+  return { prompt: resolvePrompt(DEFAULT_PROMPT_ID), source: "default" };
+}
@@ -0,0 +1,64 @@
+/**
+ * Prompt Templating
+ *
+ * Prompts name their slots as {{slot_name}}. Slot values come in two kinds:
+ *
+ * - trusted text (our own instructions and generated sections), inserted as is
+ * - user content, marked with userContent(), which is quoted as a JSON string
+ *   inside <user_content> tags so it can't close the block, start a new
+ *   heading or pose as instructions
+ *
+ * Rendering is a single pass, so a value containing "{{...}}" is never
+ * expanded, and every slot must be filled exactly: a missing or unused slot
+ * is a bug in the caller and throws.
+ */
+
+export interface UserContent {
+  kind: "user";
+  value: string;
+}
+
+export type SlotValue = string | UserContent;
+
+const SLOT = /\{\{([a-z_]+)\}\}/g;
+
+// Tags the model could mistake for the end of the quoted block
+const CONTENT_TAG = /<\/?\s*user_content\s*>/gi;
+
+/**
+ * Mark text as coming from the user, so it is escaped when rendered.
+ */
+export function userContent(value: string): UserContent {
+  return { kind: "user", value };
+}
+
+/**
+ * Quote user text for inline use, e.g. inside a bullet point.
+ */
+export function quoteUserText(text: string): string {
+  return JSON.stringify(text.replace(CONTENT_TAG, ""));
+}
+
+function renderSlot(value: SlotValue): string {
+  if (typeof value === "string") return value;
+  return `<user_content>\n${quoteUserText(value.value)}\n</user_content>`;
+}
+
+/**
+ * Fill a template's slots.
+ * @throws Error when a slot has no value or a value has no slot
+ */
+export function renderTemplate(template: string, slots: Record<string, SlotValue>): string {
+  const used = new Set<string>();
+
+  const rendered = template.replace(SLOT, (_, name: string) => {
+    if (!(name in slots)) throw new Error(`Prompt slot "${name}" has no value`);
+    used.add(name);
+    return renderSlot(slots[name]);
+  });
+
+  const unused = Object.keys(slots).filter((name) => !used.has(name));
+  if (unused.length > 0) throw new Error(`Prompt has no slot for: ${unused.join(", ")}`);
+
+  return rendered;
+}